@@ -780,7 +780,13 @@ function renderLogsBatch() {
         const answerTd = document.createElement('td');
         answerTd.className = 'cell-truncate';
 
-        if (!log.success) {
+        if (log.status === 'cancelled') {
+            const cancelledSpan = document.createElement('span');
+            cancelledSpan.className = 'badge badge-inactive';
+            cancelledSpan.textContent = 'Cancelled';
+            answerTd.appendChild(cancelledSpan);
+            answerTd.title = log.answer || '';
+        } else if (!log.success) {
             const errorSpan = document.createElement('span');
             errorSpan.className = 'badge badge-inactive';
             errorSpan.style.backgroundColor = 'var(--red-light, rgba(239, 68, 68, 0.1))';
@@ -791,6 +797,13 @@ function renderLogsBatch() {
             answerTd.appendChild(errorSpan);
             answerTd.appendChild(errText);
             answerTd.title = log.answer || '';
+        } else if (log.status === 'cache_hit' || log.status === 'coalesced') {
+            const cacheSpan = document.createElement('span');
+            cacheSpan.className = 'badge badge-active';
+            cacheSpan.textContent = log.status === 'cache_hit' ? 'Cached' : 'Shared';
+            answerTd.appendChild(cacheSpan);
+            answerTd.appendChild(document.createTextNode(' ' + (log.answer || '—')));
+            answerTd.title = log.answer || '';
         } else {
             // For the table preview, try to extract the non-thinking part if possible
             let previewText = log.answer || '—';
@@ -849,9 +862,15 @@ function showLogDetail(log) {
         });
     } catch { }
 
-    const statusBadge = log.success
-        ? '<span class="badge badge-active">Success</span>'
-        : '<span class="badge badge-inactive">Error</span>';
+    const statusBadge = log.status === 'cancelled'
+        ? '<span class="badge badge-inactive">Cancelled</span>'
+        : log.status === 'cache_hit'
+            ? '<span class="badge badge-active">Cached</span>'
+            : log.status === 'coalesced'
+                ? '<span class="badge badge-active">Shared</span>'
+                : log.success
+                    ? '<span class="badge badge-active">Success</span>'
+                    : '<span class="badge badge-inactive">Error</span>';
 
     const isTask = log.question && (
         log.question.includes('[TASK RESUMPTION]') ||
@@ -896,6 +915,12 @@ function showLogDetail(log) {
                 </span>
             </div>
             ` : ''}
+            ${log.selectedBy ? `
+            <div class="log-detail-item">
+                <span class="log-detail-label">Selected By</span>
+                <span class="log-detail-value">${escapeHtml(log.selectedBy)}</span>
+            </div>
+            ` : ''}
         </div>
         ${log.systemInstruction ? `
         <div class="log-detail-section">
@@ -0,0 +1,348 @@
+/**
+ * Anthropic Messages API compatibility layer (`POST /v1/messages`).
+ *
+ * Translates `system`, `messages` (with `tool_use` / `tool_result` / `thinking`
+ * content blocks) and `tools` into Gemini payloads for the rotation engine in
+ * chat.ts. Streaming emits the Anthropic event sequence (`message_start`,
+ * `content_block_*`, `message_delta`, `message_stop`).
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+    resolveModel,
+    routingTraits,
+    reportServedModel,
+    createRotationContext,
+    tryGenerateContentWithAccounts,
+    streamWithAccounts,
+    SSE_HEADERS,
+    StreamFormatter,
+} from './chat';
+import { categoryError, setRetryAfter } from './google-errors';
+import { toGeminiSchema } from '../services/json-schema';
+import { ErrorCategory } from '../services/error-classifier';
+import { SKIP_THOUGHT_SIGNATURE } from '../services/gemini';
+
+// ─── Request translation ──────────────────────────────────
+
+function blocksOf(content: any): any[] {
+    if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : [];
+    return Array.isArray(content) ? content : [];
+}
+
+function textOf(content: any): string {
+    return blocksOf(content).map(b => b.text || '').filter(Boolean).join('\n');
+}
+
+function mediaToPart(source: any): any | null {
+    if (source?.type === 'base64') return { inlineData: { mimeType: source.media_type, data: source.data } };
+    if (source?.type === 'url') return { fileData: { mimeType: source.media_type || 'image/jpeg', fileUri: source.url } };
+    return null;
+}
+
+function translateMessages(messages: any[]): any[] {
+    const contents: any[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const msg of messages) {
+        const parts: any[] = [];
+        // A thinking block's signature belongs to the function call that follows it
+        let pendingSignature: string | undefined;
+
+        for (const block of blocksOf(msg.content)) {
+            switch (block.type) {
+                case 'text':
+                    if (block.text) parts.push({ text: block.text });
+                    break;
+                case 'image':
+                case 'document': {
+                    const part = mediaToPart(block.source);
+                    if (part) parts.push(part);
+                    break;
+                }
+                case 'thinking':
+                    if (block.thinking) parts.push({ text: block.thinking, thought: true });
+                    if (block.signature) pendingSignature = block.signature;
+                    break;
+                case 'tool_use':
+                    toolNames.set(block.id, block.name);
+                    parts.push({
+                        functionCall: { name: block.name, args: block.input ?? {} },
+                        thoughtSignature: pendingSignature || SKIP_THOUGHT_SIGNATURE,
+                    });
+                    pendingSignature = undefined;
+                    break;
+                case 'tool_result': {
+                    const text = textOf(block.content);
+                    parts.push({
+                        functionResponse: {
+                            name: toolNames.get(block.tool_use_id) || 'tool',
+                            response: block.is_error ? { error: text } : { content: text },
+                        },
+                    });
+                    break;
+                }
+                default:
+                    // redacted_thinking, server tool blocks, etc. have no Gemini equivalent
+                    break;
+            }
+        }
+
+        if (parts.length) contents.push({ role: msg.role === 'assistant' ? 'model' : 'user', parts });
+    }
+
+    return contents;
+}
+
+function translateTools(tools: any[] | undefined): any[] | undefined {
+    if (!Array.isArray(tools)) return undefined;
+    const declarations = tools
+        .filter(t => t.name && t.input_schema)
+        .map(t => ({
+            name: t.name,
+            ...(t.description && { description: t.description }),
+            parameters: toGeminiSchema(t.input_schema),
+        }));
+    return declarations.length ? [{ functionDeclarations: declarations }] : undefined;
+}
+
+function translateToolChoice(toolChoice: any): any | undefined {
+    switch (toolChoice?.type) {
+        case 'auto': return { functionCallingConfig: { mode: 'AUTO' } };
+        case 'any': return { functionCallingConfig: { mode: 'ANY' } };
+        case 'none': return { functionCallingConfig: { mode: 'NONE' } };
+        case 'tool': return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.name] } };
+        default: return undefined;
+    }
+}
+
+function translateGenerationConfig(body: any): any {
+    const config: any = {};
+    if (body.max_tokens !== undefined) config.maxOutputTokens = body.max_tokens;
+    if (body.temperature !== undefined) config.temperature = body.temperature;
+    if (body.top_p !== undefined) config.topP = body.top_p;
+    if (body.top_k !== undefined) config.topK = body.top_k;
+    if (Array.isArray(body.stop_sequences)) config.stopSequences = body.stop_sequences;
+    if (body.thinking?.type === 'enabled') {
+        config.thinkingConfig = { includeThoughts: true, thinkingBudget: body.thinking.budget_tokens };
+    }
+    return Object.keys(config).length ? config : undefined;
+}
+
+// ─── Response translation ─────────────────────────────────
+
+function mapStopReason(reason: string | undefined, hasToolUse: boolean): string {
+    if (hasToolUse) return 'tool_use';
+    if (reason === 'MAX_TOKENS') return 'max_tokens';
+    return 'end_turn';
+}
+
+function toolUseId(): string {
+    return `toolu_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function messageId(): string {
+    return `msg_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function mapUsage(usage: any) {
+    return {
+        input_tokens: usage?.promptTokenCount || 0,
+        output_tokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    };
+}
+
+function partsToBlocks(parts: any[] | undefined): any[] {
+    const blocks: any[] = [];
+    for (const p of parts ?? []) {
+        const last = blocks[blocks.length - 1];
+        if (p.thought) {
+            if (last?.type === 'thinking' && !last.signature) last.thinking += p.text || '';
+            else blocks.push({ type: 'thinking', thinking: p.text || '', signature: '' });
+            if (p.thoughtSignature) blocks[blocks.length - 1].signature = p.thoughtSignature;
+        } else if (p.text) {
+            if (last?.type === 'text') last.text += p.text;
+            else blocks.push({ type: 'text', text: p.text });
+        } else if (p.functionCall) {
+            if (p.thoughtSignature && last?.type === 'thinking') last.signature = p.thoughtSignature;
+            blocks.push({ type: 'tool_use', id: toolUseId(), name: p.functionCall.name, input: p.functionCall.args ?? {} });
+        }
+    }
+    return blocks;
+}
+
+function toMessage(response: any, model: string) {
+    const candidate = response.candidates?.[0];
+    const content = partsToBlocks(candidate?.content?.parts);
+    return {
+        id: messageId(),
+        type: 'message',
+        role: 'assistant',
+        model,
+        content,
+        stop_reason: mapStopReason(candidate?.finishReason, content.some(b => b.type === 'tool_use')),
+        stop_sequence: null,
+        usage: mapUsage(response.usageMetadata),
+    };
+}
+
+function anthropicError(type: string, message: string) {
+    return { type: 'error', error: { type, message } };
+}
+
+const ERROR_TYPE_BY_STATUS: Record<number, string> = {
+    400: 'invalid_request_error',
+    404: 'not_found_error',
+    429: 'rate_limit_error',
+    503: 'overloaded_error',
+};
+
+/** Anthropic error body for a pool-wide failure, with the HTTP status of its category. */
+function categoryFailure(category?: ErrorCategory, message?: string) {
+    const { code, message: defaultMessage } = categoryError(category);
+    return { code, body: anthropicError(ERROR_TYPE_BY_STATUS[code] ?? 'api_error', message ?? defaultMessage) };
+}
+
+function sendCategoryFailure(res: Response, category?: ErrorCategory): void {
+    const { code, body } = categoryFailure(category);
+    setRetryAfter(res, code);
+    res.status(code).json(body);
+}
+
+/**
+ * Emits Anthropic streaming events. `message_start` is deferred until the first
+ * upstream chunk so it can carry the prompt token count.
+ */
+function createEventFormatter(model: string): StreamFormatter {
+    const id = messageId();
+    let currentModel = model;
+    let started = false;
+    let blockIndex = -1;
+    let blockType: 'text' | 'thinking' | null = null;
+    let hasToolUse = false;
+    let finishReason: string | undefined;
+    let usage: any;
+
+    const send = (res: Response, event: string, data: any) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`);
+    };
+
+    const start = (res: Response) => {
+        if (started) return;
+        started = true;
+        send(res, 'message_start', {
+            message: {
+                id, type: 'message', role: 'assistant', model: currentModel, content: [],
+                stop_reason: null, stop_sequence: null,
+                usage: { input_tokens: usage?.promptTokenCount || 0, output_tokens: 0 },
+            },
+        });
+    };
+
+    const closeBlock = (res: Response) => {
+        if (blockType === null) return;
+        send(res, 'content_block_stop', { index: blockIndex });
+        blockType = null;
+    };
+
+    const openBlock = (res: Response, contentBlock: any) => {
+        closeBlock(res);
+        blockIndex++;
+        send(res, 'content_block_start', { index: blockIndex, content_block: contentBlock });
+    };
+
+    return {
+        headers: SSE_HEADERS,
+        writeChunk(res, chunk) {
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+            start(res);
+
+            const candidate = chunk.candidates?.[0];
+            if (candidate?.finishReason) finishReason = candidate.finishReason;
+
+            for (const p of candidate?.content?.parts ?? []) {
+                if (p.thought) {
+                    if (blockType !== 'thinking') { openBlock(res, { type: 'thinking', thinking: '' }); blockType = 'thinking'; }
+                    if (p.text) send(res, 'content_block_delta', { index: blockIndex, delta: { type: 'thinking_delta', thinking: p.text } });
+                    if (p.thoughtSignature) send(res, 'content_block_delta', { index: blockIndex, delta: { type: 'signature_delta', signature: p.thoughtSignature } });
+                } else if (p.text) {
+                    if (blockType !== 'text') { openBlock(res, { type: 'text', text: '' }); blockType = 'text'; }
+                    send(res, 'content_block_delta', { index: blockIndex, delta: { type: 'text_delta', text: p.text } });
+                } else if (p.functionCall) {
+                    if (p.thoughtSignature && blockType === 'thinking') {
+                        send(res, 'content_block_delta', { index: blockIndex, delta: { type: 'signature_delta', signature: p.thoughtSignature } });
+                    }
+                    openBlock(res, { type: 'tool_use', id: toolUseId(), name: p.functionCall.name, input: {} });
+                    send(res, 'content_block_delta', {
+                        index: blockIndex,
+                        delta: { type: 'input_json_delta', partial_json: JSON.stringify(p.functionCall.args ?? {}) },
+                    });
+                    send(res, 'content_block_stop', { index: blockIndex });
+                    hasToolUse = true;
+                }
+            }
+        },
+        writeModelChange(_res, newModel) {
+            currentModel = newModel;
+        },
+        end(res) {
+            start(res);
+            closeBlock(res);
+            send(res, 'message_delta', {
+                delta: { stop_reason: mapStopReason(finishReason, hasToolUse), stop_sequence: null },
+                usage: { output_tokens: mapUsage(usage).output_tokens },
+            });
+            send(res, 'message_stop', {});
+            res.end();
+        },
+        fail(res, message, category) {
+            if (!res.headersSent) {
+                sendCategoryFailure(res, category);
+            } else if (!res.writableEnded) {
+                send(res, 'error', { error: categoryFailure(category, message).body.error });
+                res.end();
+            }
+        },
+    };
+}
+
+// ─── Public entry point ───────────────────────────────────
+
+export async function handleMessages(req: Request, res: Response): Promise<void> {
+    try {
+        const { messages, system, model: reqModel, stream, tools, tool_choice } = req.body;
+
+        if (!Array.isArray(messages) || messages.length === 0) {
+            res.status(400).json(anthropicError('invalid_request_error', '`messages` must be a non-empty array.'));
+            return;
+        }
+
+        const contents = translateMessages(messages);
+        const systemText = textOf(system);
+        const systemInstruction = systemText ? { parts: [{ text: systemText }] } : undefined;
+        const generationConfig = translateGenerationConfig(req.body);
+        const geminiTools = translateTools(tools);
+        const toolConfig = translateToolChoice(tool_choice);
+        const model = resolveModel(String(reqModel || '').replace(/^models\//, ''), routingTraits(res, contents, systemInstruction, geminiTools));
+
+        if (stream) {
+            await streamWithAccounts(model, contents, generationConfig, systemInstruction, geminiTools, toolConfig, res, false, createEventFormatter(model), createRotationContext(req, res));
+            return;
+        }
+
+        const ctx = createRotationContext(req, res);
+        const result = await tryGenerateContentWithAccounts(model, contents, generationConfig, systemInstruction, geminiTools, toolConfig, ctx);
+        if (!result) {
+            sendCategoryFailure(res, ctx.failureCategory);
+            return;
+        }
+        reportServedModel(res, ctx);
+        res.json(toMessage(result, ctx.servedBy?.model ?? model));
+    } catch (e: any) {
+        console.error('Messages Error:', e);
+        if (!res.headersSent) {
+            res.status(500).json(anthropicError('api_error', process.env.NODE_ENV !== 'production' ? e.message : 'Internal Server Error'));
+        }
+    }
+}
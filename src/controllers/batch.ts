@@ -0,0 +1,289 @@
+/**
+ * Asynchronous batch generation jobs.
+ *
+ * Clients submit a JSONL file of GenerateContentRequests and get a job ID back.
+ * A single background worker drains queued jobs one item at a time through
+ * `tryGenerateContentWithAccounts`, so bulk work never competes with interactive
+ * traffic for more than one semaphore slot. Jobs and items live in the active
+ * database backend; on boot, unfinished jobs resume from their pending items.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { getDatabase } from '../services/database';
+import type { BatchJob, BatchItem } from '../services/database';
+import { getSoonestCooldownExpiry } from '../services/account-cooldown';
+import { poolsOfKey } from '../services/account-pools';
+import { getReadyAccounts } from '../services/account-manager';
+import { resolveModel, tryGenerateContentWithAccounts } from './chat';
+import { sendGoogleError } from './google-errors';
+
+const ITEM_INTERVAL_MS = 1_000;       // Pause between items — keeps bulk work at a gentle pace
+const ITEM_MAX_ATTEMPTS = 3;          // Full account rotations per item before it is marked failed
+const MIN_EXHAUSTED_WAIT_MS = 30_000; // Wait at least this long when every account is exhausted
+const MAX_BATCH_ITEMS = 10_000;
+// Firestore caps a document at 1 MiB, and an item's document later holds its response too
+const MAX_ITEM_REQUEST_BYTES = 512 * 1024;
+
+let workerRunning = false;
+
+// ─── Helpers ──────────────────────────────────────────────
+
+function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(r => setTimeout(r, ms));
+}
+
+/** Public view of a job — never expose the owner's key hash or pool binding. */
+function toJobResource(job: BatchJob) {
+    const { apiKeyHash, pools, ...rest } = job;
+    return rest;
+}
+
+/**
+ * Accepts either one GenerateContentRequest per line or Gemini batch-style
+ * `{ "key": ..., "request": {...} }` lines. Returns an error message on bad input.
+ */
+function parseBatchInput(lines: any[]): { items: BatchItem[] } | { error: string } {
+    const items: BatchItem[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const request = line?.request ?? line;
+        if (!request || !Array.isArray(request.contents)) {
+            return { error: `Line ${i + 1}: missing contents array.` };
+        }
+        request.contents.forEach((c: any) => { if (!c.role) c.role = 'user'; });
+        if (Buffer.byteLength(JSON.stringify(request)) > MAX_ITEM_REQUEST_BYTES) {
+            return { error: `Line ${i + 1}: request exceeds ${MAX_ITEM_REQUEST_BYTES / 1024} KiB.` };
+        }
+        items.push({
+            index: i,
+            key: line?.key !== undefined ? String(line.key) : String(i + 1),
+            request,
+            status: 'pending',
+            attempts: 0,
+        });
+    }
+    return { items };
+}
+
+async function findOwnedJob(req: Request, res: Response): Promise<BatchJob | null> {
+    const job = await getDatabase().getBatchJob(String(req.params.id));
+    if (!job || job.apiKeyHash !== hashApiKey(res.locals.apiKey)) {
+        sendGoogleError(res, 404, 'Batch job not found.');
+        return null;
+    }
+    return job;
+}
+
+// ─── Route handlers ───────────────────────────────────────
+
+export async function handleCreateBatch(req: Request, res: Response): Promise<void> {
+    try {
+        let lines: any[];
+        if (typeof req.body === 'string') {
+            try {
+                lines = req.body.split('\n').map(l => l.trim()).filter(Boolean).map(l => JSON.parse(l));
+            } catch {
+                sendGoogleError(res, 400, 'Body must be valid JSONL (one JSON object per line).');
+                return;
+            }
+        } else if (Array.isArray(req.body?.requests)) {
+            lines = req.body.requests;
+        } else {
+            sendGoogleError(res, 400, 'Send a JSONL body or a JSON object with a requests array.');
+            return;
+        }
+
+        if (lines.length === 0 || lines.length > MAX_BATCH_ITEMS) {
+            sendGoogleError(res, 400, `A batch must contain between 1 and ${MAX_BATCH_ITEMS} requests.`);
+            return;
+        }
+
+        const parsed = parseBatchInput(lines);
+        if ('error' in parsed) {
+            sendGoogleError(res, 400, parsed.error);
+            return;
+        }
+
+        const model = resolveModel(String(req.query.model || req.body?.model || '').replace(/^models\//, ''));
+        const job: BatchJob = {
+            id: crypto.randomBytes(12).toString('hex'),
+            model,
+            status: 'queued',
+            apiKeyHash: hashApiKey(res.locals.apiKey),
+            ...(res.locals.apiKeyRecord?.pools && { pools: res.locals.apiKeyRecord.pools }),
+            totalRequests: parsed.items.length,
+            completedRequests: 0,
+            failedRequests: 0,
+            createdAt: new Date(),
+        };
+
+        await getDatabase().createBatchJob(job, parsed.items);
+        console.log(`📦 Batch job ${job.id} queued (${job.totalRequests} requests, ${model}).`);
+        kickBatchWorker();
+
+        res.status(201).json(toJobResource(job));
+    } catch (err: any) {
+        console.error('Create batch error:', err);
+        sendGoogleError(res, 500, 'Failed to create batch job.');
+    }
+}
+
+export async function handleListBatches(req: Request, res: Response): Promise<void> {
+    try {
+        const keyHash = hashApiKey(res.locals.apiKey);
+        const jobs = await getDatabase().getAllBatchJobs();
+        res.json({ batches: jobs.filter(j => j.apiKeyHash === keyHash).reverse().map(toJobResource) });
+    } catch (err: any) {
+        console.error('List batches error:', err);
+        sendGoogleError(res, 500, 'Failed to list batch jobs.');
+    }
+}
+
+export async function handleGetBatch(req: Request, res: Response): Promise<void> {
+    try {
+        const job = await findOwnedJob(req, res);
+        if (job) res.json(toJobResource(job));
+    } catch (err: any) {
+        console.error('Get batch error:', err);
+        sendGoogleError(res, 500, 'Failed to fetch batch job.');
+    }
+}
+
+export async function handleCancelBatch(req: Request, res: Response): Promise<void> {
+    try {
+        const job = await findOwnedJob(req, res);
+        if (!job) return;
+        if (job.status !== 'queued' && job.status !== 'running') {
+            sendGoogleError(res, 409, `Batch job is already ${job.status}.`);
+            return;
+        }
+        // The worker re-reads the job status before every item and stops on cancellation
+        await getDatabase().updateBatchJob(job.id, { status: 'cancelled', completedAt: new Date() });
+        res.json(toJobResource({ ...job, status: 'cancelled' }));
+    } catch (err: any) {
+        console.error('Cancel batch error:', err);
+        sendGoogleError(res, 500, 'Failed to cancel batch job.');
+    }
+}
+
+export async function handleDeleteBatch(req: Request, res: Response): Promise<void> {
+    try {
+        const job = await findOwnedJob(req, res);
+        if (!job) return;
+        if (job.status === 'queued' || job.status === 'running') {
+            sendGoogleError(res, 409, 'Cancel the batch job before deleting it.');
+            return;
+        }
+        await getDatabase().deleteBatchJob(job.id);
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Delete batch error:', err);
+        sendGoogleError(res, 500, 'Failed to delete batch job.');
+    }
+}
+
+/** Streams finished items as JSONL: `{ key, response }` or `{ key, error }` per line. */
+export async function handleGetBatchResults(req: Request, res: Response): Promise<void> {
+    try {
+        const job = await findOwnedJob(req, res);
+        if (!job) return;
+
+        const items = await getDatabase().getBatchItems(job.id);
+        res.setHeader('Content-Type', 'application/jsonl');
+        res.setHeader('Content-Disposition', `attachment; filename="batch-${job.id}-results.jsonl"`);
+        for (const item of items) {
+            if (item.status === 'succeeded') res.write(JSON.stringify({ key: item.key, response: item.response }) + '\n');
+            else if (item.status === 'failed') res.write(JSON.stringify({ key: item.key, error: item.error }) + '\n');
+        }
+        res.end();
+    } catch (err: any) {
+        console.error('Batch results error:', err);
+        if (!res.headersSent) sendGoogleError(res, 500, 'Failed to fetch batch results.');
+        else res.end();
+    }
+}
+
+// ─── Background worker ────────────────────────────────────
+
+/**
+ * Starts the background worker if it is not already running.
+ * Called on job creation and at boot so persisted jobs resume after a restart.
+ */
+export function kickBatchWorker(): void {
+    if (workerRunning) return;
+    workerRunning = true;
+    drainBatchJobs()
+        .catch(err => console.error('❌ Batch worker failed:', err))
+        .finally(() => { workerRunning = false; });
+}
+
+async function drainBatchJobs(): Promise<void> {
+    const db = getDatabase();
+    while (true) {
+        const pending = (await db.getAllBatchJobs()).filter(j => j.status === 'queued' || j.status === 'running');
+        if (pending.length === 0) return;
+        await runBatchJob(pending[0]);
+    }
+}
+
+async function runBatchJob(job: BatchJob): Promise<void> {
+    const db = getDatabase();
+    if (job.status === 'queued') {
+        await db.updateBatchJob(job.id, { status: 'running', startedAt: new Date() });
+    } else {
+        console.log(`📦 Resuming batch job ${job.id}...`);
+    }
+
+    const items = await db.getBatchItems(job.id);
+    let completed = items.filter(i => i.status === 'succeeded').length;
+    let failed = items.filter(i => i.status === 'failed').length;
+
+    for (const item of items) {
+        if (item.status !== 'pending') continue;
+
+        while (item.status === 'pending') {
+            const current = await db.getBatchJob(job.id);
+            if (!current || current.status === 'cancelled') {
+                console.log(`🛑 Batch job ${job.id} cancelled.`);
+                return;
+            }
+
+            const { contents, generationConfig, systemInstruction, system_instruction, tools, toolConfig, tool_config } = item.request;
+            const pools = poolsOfKey(job);
+            item.attempts++;
+            const result = await tryGenerateContentWithAccounts(
+                job.model, contents, generationConfig, systemInstruction || system_instruction, tools, toolConfig || tool_config,
+                { pools }
+            );
+
+            if (result) {
+                item.status = 'succeeded';
+                completed++;
+                await db.updateBatchItem(job.id, item.index, { status: 'succeeded', attempts: item.attempts, response: result });
+            } else if (item.attempts >= ITEM_MAX_ATTEMPTS) {
+                item.status = 'failed';
+                failed++;
+                await db.updateBatchItem(job.id, item.index, { status: 'failed', attempts: item.attempts, error: 'All Gemini accounts exhausted or failed.' });
+            } else {
+                // Every account of the job's pools is cooling down — wait for them rather than burning the item
+                await db.updateBatchItem(job.id, item.index, { attempts: item.attempts });
+                const soonest = getSoonestCooldownExpiry((await getReadyAccounts(pools)).map(a => a.email));
+                const wait = Math.max(MIN_EXHAUSTED_WAIT_MS, soonest ? soonest - Date.now() : 0);
+                console.warn(`⏸️ Batch job ${job.id}: pool exhausted, retrying item ${item.index} in ${Math.round(wait / 1000)}s.`);
+                await sleep(wait);
+            }
+        }
+
+        await db.updateBatchJob(job.id, { completedRequests: completed, failedRequests: failed });
+        await sleep(ITEM_INTERVAL_MS);
+    }
+
+    const status = completed === 0 && failed > 0 ? 'failed' : 'completed';
+    await db.updateBatchJob(job.id, { status, completedRequests: completed, failedRequests: failed, completedAt: new Date() });
+    console.log(`✅ Batch job ${job.id} ${status}: ${completed} succeeded, ${failed} failed.`);
+}
@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response } from 'express';
+import { StreamBroadcast, StreamFormatter } from './chat';
+import { SingleFlight } from '../services/single-flight';
+
+/** A client connection that records what was written to it, one entry per event. */
+function client() {
+    const events: string[] = [];
+    const conn = { headersSent: false, writableEnded: false };
+    const res = Object.assign(conn, {
+        writeHead(status: number) { conn.headersSent = true; events.push(`head ${status}`); },
+        end() { conn.writableEnded = true; events.push('end'); },
+    }) as unknown as Response;
+    const formatter: StreamFormatter = {
+        headers: {},
+        writeChunk(_res, chunk) { events.push(`chunk ${JSON.stringify(chunk)}`); },
+        writeModelChange(_res, model) { events.push(`model ${model}`); },
+        end(r) { r.end(); },
+        fail(_res, message) { events.push(`fail ${message}`); },
+    };
+    return { events, subscriber: { res, formatter, headersAlreadySent: false } };
+}
+
+test('a late subscriber is replayed the output so far, then follows live', () => {
+    const broadcast = new StreamBroadcast('gemini-2.5-pro', true);
+    const early = client();
+    broadcast.subscribe(early.subscriber);
+    broadcast.commit('gemini-2.5-pro');
+    broadcast.chunk({ response: { text: 'a' } });
+
+    const late = client();
+    broadcast.subscribe(late.subscriber);
+    broadcast.chunk({ response: { text: 'b' } });
+    broadcast.end();
+
+    const expected = ['head 200', 'chunk {"text":"a"}', 'chunk {"text":"b"}', 'end'];
+    assert.deepEqual(early.events, expected);
+    assert.deepEqual(late.events, expected);
+});
+
+test('a fallback model is announced to every subscriber, including late ones', () => {
+    const broadcast = new StreamBroadcast('gemini-2.5-pro', true);
+    broadcast.commit('gemini-2.5-flash');
+    const late = client();
+    broadcast.subscribe(late.subscriber);
+    assert.deepEqual(late.events, ['head 200', 'model gemini-2.5-flash']);
+});
+
+test('an unsubscribed client receives nothing further', () => {
+    const broadcast = new StreamBroadcast('gemini-2.5-pro', true);
+    const leaving = client();
+    broadcast.subscribe(leaving.subscriber);
+    broadcast.commit('gemini-2.5-pro');
+    broadcast.unsubscribe(leaving.subscriber);
+    broadcast.chunk({ response: { text: 'a' } });
+    broadcast.fail('boom');
+    assert.deepEqual(leaving.events, ['head 200']);
+});
+
+test('a broadcast that is not replayable, or has stopped recording, replays nothing', () => {
+    for (const broadcast of [new StreamBroadcast('m', false), new StreamBroadcast('m', true)]) {
+        broadcast.commit('m');
+        broadcast.chunk({ response: { text: 'a' } });
+        broadcast.stopRecording();
+        const late = client();
+        broadcast.subscribe(late.subscriber);
+        broadcast.chunk({ response: { text: 'b' } });
+        assert.deepEqual(late.events, ['chunk {"text":"b"}']);
+    }
+});
+
+test('a stream that stopped recording can no longer be joined: the next request gets a fresh one', async () => {
+    // Mirrors streamGenerateContent: the broadcast stops recording when its flight retires
+    const flights = new SingleFlight<void, StreamBroadcast>();
+    let finish!: () => void;
+    const start = () => {
+        const broadcast = new StreamBroadcast('m', true);
+        return { result: new Promise<void>(r => { finish = r; }), shared: broadcast, onRetire: () => broadcast.stopRecording() };
+    };
+
+    const first = flights.join('k', undefined, start);
+    first.shared.commit('m');
+    first.shared.chunk({ response: { text: 'a' } });
+
+    const joiner = client();
+    const joined = flights.join('k', undefined, start);
+    joined.shared.subscribe(joiner.subscriber);
+    assert.deepEqual(joiner.events, ['head 200', 'chunk {"text":"a"}']);
+
+    first.shared.end();
+    finish();
+    await first.result;
+    await new Promise(setImmediate);
+
+    const after = flights.join('k', undefined, start);
+    assert.equal(after.leader, true);
+    assert.notEqual(after.shared, first.shared);
+    const fresh = client();
+    after.shared.subscribe(fresh.subscriber);
+    assert.deepEqual(fresh.events, []);
+    finish();
+});
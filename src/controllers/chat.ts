@@ -1,9 +1,10 @@
 import { Request, Response } from 'express';
 import { getDatabase } from '../services/database';
+import type { Account, ApiKey, RequestLog, RequestStatus } from '../services/database';
 import { nativeFetch, nativeFetchStream } from '../services/http';
-import { GEMINI_API_BASE, DEFAULT_MODEL, getFirstFallbackModel, getSecondFallbackModel } from '../services/gemini';
+import { GEMINI_API_BASE, DEFAULT_MODEL, getFallbackChain } from '../services/gemini';
 import { accountRateLimiter } from '../services/rate-limiter';
-import { classifyError } from '../services/error-classifier';
+import { classifyError, ErrorCategory } from '../services/error-classifier';
 import {
     isAccountInCooldown,
     shouldProbeAccount,
@@ -14,6 +15,17 @@ import {
 } from '../services/account-cooldown';
 import { geminiRequestSemaphore } from '../services/concurrency';
 import { getReadyAccounts, ensureFreshToken } from '../services/account-manager';
+import { getAccountSelectionConfig, orderAccounts, trackAttempt } from '../services/account-selection';
+import { poolsOfKey } from '../services/account-pools';
+import { canServeModel, recordModelAvailable, recordModelFailure, getDueRechecks, touchRecheck } from '../services/model-availability';
+import { isCacheEnabledFor, requestFingerprint, getCachedResponse, storeCachedResponse } from '../services/response-cache';
+import { SingleFlight } from '../services/single-flight';
+import { raceWithHedge } from '../services/hedging';
+import { getStructuredOutputConfig, schemaOf, checkStructuredOutput, buildRetryContents } from '../services/structured-output';
+import { routeModel, RoutingTraits } from '../services/model-routing';
+import type { RoutingOptions } from '../services/routing-overrides';
+import { getAffinityConfig, affinityKeyFor, getPinnedAccount, pinSession, SessionAffinity } from '../services/session-affinity';
+import { sendGoogleError, sendCategoryError, sendInternalError } from './google-errors';
 
 // ─── Constants ────────────────────────────────────────────
 
@@ -24,6 +36,17 @@ const MAX_ATTEMPTS = 5;
 // Small stagger between accounts within a round — reduces burst rate seen from our IP.
 // Without this, 9 accounts fire back-to-back from the same IP and all get 429.
 const INTER_ACCOUNT_STAGGER_MS = 150;
+// Streams that go quiet are abandoned and failed over. Thinking models can take a while
+// before the first chunk, so that wait is longer than the gap allowed between chunks.
+const FIRST_CHUNK_TIMEOUT_MS = 60_000;
+const STREAM_STALL_TIMEOUT_MS = 30_000;
+const MAX_STREAM_CONTINUATIONS = 2;
+const CONTINUE_INSTRUCTION = 'Your previous response was cut off. Continue exactly where it stopped — do not repeat any text, and do not add a preamble.';
+// Code Assist serves one candidate per call; larger candidateCount values are emulated by
+// fanning out. Same upper bound as the public Gemini API.
+const MAX_EMULATED_CANDIDATES = 8;
+// Names the model that actually produced the response, which differs from the requested one after a fallback
+const SERVED_MODEL_HEADER = 'X-OpenGem-Model';
 
 // ─── Misc helpers ─────────────────────────────────────────
 
@@ -36,24 +59,92 @@ function computeBackoffDelay(attempt: number): number {
     return applyJitter(Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS));
 }
 
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * Returns a signal that aborts when the client disconnects before the response
+ * has been fully written. Pass it to the rotation loops via `RotationContext`.
+ */
+export function abortOnClientDisconnect(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+}
+
+/** True when `signal` was aborted by the request's `X-OpenGem-Timeout-Ms` deadline rather than by the client leaving. */
+function isTimedOut(signal?: AbortSignal): boolean {
+    return signal?.reason?.name === 'TimeoutError';
+}
+
+/**
+ * Builds the rotation context for a client request: cancellation on disconnect,
+ * plus the response cache (when the caller's API key allows it) and coalescing
+ * with identical in-flight requests. A request skips the cache with
+ * `X-OpenGem-Cache: off` or `Cache-Control: no-cache` / `no-store`, and
+ * coalescing with `X-OpenGem-Coalesce: off`.
+ * `X-OpenGem-Validate: on|off` overrides the responseSchema enforcement setting.
+ * Routing overrides were validated against the API key by `requireApiKey`; a
+ * timeout override turns into a deadline on the context's signal. With session
+ * affinity on, `X-OpenGem-Session` names the conversation the request belongs to.
+ * The request only draws from the account pools its API key is bound to.
+ */
+export function createRotationContext(req: Request, res: Response): RotationContext {
+    const optOut = /^(off|bypass|false|0)$/i.test(req.header('x-opengem-cache') || '')
+        || /no-cache|no-store/i.test(req.header('cache-control') || '');
+    const noCoalesce = /^(off|false|0)$/i.test(req.header('x-opengem-coalesce') || '');
+    const validate = req.header('x-opengem-validate') || '';
+    const { timeoutMs, ...routing }: RoutingOptions = res.locals.routingOptions ?? {};
+    const disconnect = abortOnClientDisconnect(res);
+    const apiKey = res.locals.apiKeyRecord as ApiKey | undefined;
+    const session = req.header('x-opengem-session')?.trim().slice(0, 200);
+    const affinity: SessionAffinity | undefined = getAffinityConfig().enabled
+        ? { scope: apiKey?.id ?? '', ...(session && { session }) }
+        : undefined;
+    return {
+        signal: timeoutMs ? AbortSignal.any([disconnect, AbortSignal.timeout(timeoutMs)]) : disconnect,
+        cache: !optOut && isCacheEnabledFor(apiKey),
+        coalesce: !noCoalesce,
+        structured: /^(on|true|1)$/i.test(validate) || (!/^(off|false|0)$/i.test(validate) && getStructuredOutputConfig().enabled),
+        ...(Object.keys(routing).length && { routing }),
+        ...(affinity && { affinity }),
+        ...(apiKey && { pools: poolsOfKey(apiKey) }),
+    };
+}
+
+/** Reports the model that produced a non-streaming answer; streams set the header when they commit. */
+export function reportServedModel(res: Response, ctx: RotationContext): void {
+    if (ctx.servedBy && !res.headersSent) res.setHeader(SERVED_MODEL_HEADER, ctx.servedBy.model);
+}
+
 function classify429(text: string): 'quota' | 'rate_limit' {
     const cat = classifyError(text);
     return (cat === 'quota' || cat === 'auth' || cat === 'billing') ? 'quota' : 'rate_limit';
 }
 
-/** Returns the next model to try after a 429:
- *  primary → fallback → fallbackV2 → null (no more fallbacks)
+/**
+ * Maps the model a client asked for to the one to call: aliases always, routing
+ * rules too when the request's traits are given. An empty name means the default model.
  */
-function getFallbackModel(current: string): string | null {
-    const fb1 = getFirstFallbackModel();
-    const fb2 = getSecondFallbackModel();
-    if (current === fb2) return null;   // Already on last resort
-    if (current === fb1) return fb2;    // fallback → fallbackV2
-    return fb1;                          // primary → fallback
+export function resolveModel(model: string, traits?: RoutingTraits): string {
+    return routeModel(model || DEFAULT_MODEL, traits);
 }
 
-function resolveModel(model: string): string {
-    return model || DEFAULT_MODEL;
+/** Routing traits of a client request, for `resolveModel`. */
+export function routingTraits(res: Response, contents: any[], systemInstruction?: any, tools?: any[]): RoutingTraits {
+    return { contents, systemInstruction, tools, apiKeyId: (res.locals.apiKeyRecord as ApiKey | undefined)?.id };
 }
 
 function buildHeaders(token: string) {
@@ -86,6 +177,33 @@ function extractText(candidate: any): string {
         .trim();
 }
 
+/** Adds up the numeric token counts of several usageMetadata objects. */
+function sumUsage(usages: any[]): any {
+    const total: Record<string, number> = {};
+    for (const usage of usages) {
+        for (const [key, value] of Object.entries(usage ?? {})) {
+            if (typeof value === 'number') total[key] = (total[key] ?? 0) + value;
+        }
+    }
+    return total;
+}
+
+/** Number of candidates requested, capped at what we are willing to fan out. */
+function candidateCountOf(generationConfig: any): number {
+    const requested = Math.floor(Number(generationConfig?.candidateCount) || 1);
+    if (requested > MAX_EMULATED_CANDIDATES) {
+        console.warn(`⚠️ candidateCount ${requested} capped at ${MAX_EMULATED_CANDIDATES}.`);
+        return MAX_EMULATED_CANDIDATES;
+    }
+    return Math.max(1, requested);
+}
+
+/** generationConfig for one of the single-candidate calls a multi-candidate request fans out into. */
+function singleCandidateConfig(generationConfig: any): any {
+    const { candidateCount, ...rest } = generationConfig ?? {};
+    return Object.keys(rest).length ? rest : undefined;
+}
+
 async function drainStream(stream: any): Promise<string> {
     const chunks: Buffer[] = [];
     try { for await (const chunk of stream) chunks.push(chunk as Buffer); } catch { /* ignore */ }
@@ -94,15 +212,71 @@ async function drainStream(stream: any): Promise<string> {
 
 // ─── Account selection ────────────────────────────────────
 
-async function selectReadyAccounts() {
+/**
+ * Ready accounts of the request's pools in rotation order, as arranged by the configured selection strategy
+ * (recorded in `ctx.selectedBy`). A non-zero `accountOffset` starts the rotation that
+ * many usable (not cooling down) accounts in, so parallel calls begin on different
+ * accounts. Routing overrides can pin the request to one account or move Pro accounts
+ * to the front. A session pinned by affinity goes to its account first unless that
+ * account is cooling down. Given a `model`, accounts known not to serve it, or kept
+ * from it by an access rule, are left out.
+ */
+async function selectReadyAccounts(ctx: RotationContext = {}, model?: string) {
     const cleared = clearExpiredCooldowns();
     if (cleared > 0) console.log(`🧹 Cleared ${cleared} expired cooldown(s).`);
-    return getReadyAccounts();
+    const { strategy } = getAccountSelectionConfig();
+    ctx.selectedBy = ctx.routing?.preferPro ? 'pro-first' : strategy;
+    let accounts = orderAccounts(await getReadyAccounts(ctx.pools), strategy);
+
+    const pinned = ctx.routing?.account;
+    if (pinned) accounts = accounts.filter(a => a.email.toLowerCase() === pinned);
+    if (model) {
+        const serving = accounts.filter(a => canServeModel(a, model));
+        if (serving.length === 0 && accounts.length > 0) {
+            console.warn(`🚫 No ready account can serve ${model}.`);
+            ctx.failureCategory = 'model_not_found';
+        }
+        accounts = serving;
+    }
+    if (ctx.accountOffset) {
+        const usable = accounts.filter(a => !isAccountInCooldown(a.email));
+        if (usable.length > 0) {
+            const start = accounts.indexOf(usable[ctx.accountOffset % usable.length]);
+            accounts = [...accounts.slice(start), ...accounts.slice(0, start)];
+        }
+    }
+    // Stable sort: the rotation order is kept within each group
+    if (ctx.routing?.preferPro) accounts = [...accounts].sort((a, b) => Number(!!b.isPro) - Number(!!a.isPro));
+
+    const sessionAccount = ctx.affinity?.key && !ctx.accountOffset ? getPinnedAccount(ctx.affinity.key) : undefined;
+    const index = sessionAccount ? accounts.findIndex(a => a.email === sessionAccount) : -1;
+    if (index >= 0 && !isAccountInCooldown(sessionAccount!)) {
+        ctx.selectedBy = 'affinity';
+        accounts = [accounts[index], ...accounts.slice(0, index), ...accounts.slice(index + 1)];
+    }
+    return accounts;
+}
+
+/** Fallback models to try on an account that returned 429 for `model`, unless the request turned fallback off. */
+function fallbacksFor(model: string, ctx: RotationContext): string[] {
+    return ctx.routing?.fallback === false ? [] : getFallbackChain(model);
+}
+
+/** Sub-request context that keeps the caller's signal and per-request settings. */
+function inheritContext(ctx: RotationContext, extra: RotationContext = {}): RotationContext {
+    return {
+        signal: ctx.signal,
+        structured: ctx.structured,
+        ...(ctx.routing && { routing: ctx.routing }),
+        ...(ctx.affinity && { affinity: ctx.affinity }),
+        ...(ctx.pools && { pools: ctx.pools }),
+        ...extra,
+    };
 }
 
 // ─── Request logging ──────────────────────────────────────
 
-function logRequest(db: any, email: string, contents: any[], answer: string, tokens: number, success: boolean, systemInstruction?: any, model?: string, isFallback?: boolean) {
+function logRequest(db: any, email: string, contents: any[], answer: string, tokens: number, success: boolean, systemInstruction?: any, model?: string, isFallback?: boolean, status?: RequestStatus, selectedBy?: RequestLog['selectedBy']) {
     let question = 'Unknown';
     const last = contents?.[contents.length - 1];
     if (last?.parts) {
@@ -126,6 +300,8 @@ function logRequest(db: any, email: string, contents: any[], answer: string, tok
         ...(si && { systemInstruction: si }),
         ...(model && { model }),
         ...(isFallback !== undefined && { isFallback }),
+        ...(status && { status }),
+        ...(selectedBy && { selectedBy }),
         tokensUsed: tokens, success, timestamp: new Date(),
     }).catch((err: any) => console.error('Log write error:', err));
 }
@@ -136,43 +312,329 @@ export const handleGenerateContent = async (req: Request, res: Response): Promis
     try {
         const { contents, generationConfig, systemInstruction, system_instruction, tools, toolConfig, tool_config } = req.body;
         const finalSystemInstruction = systemInstruction || system_instruction;
-        const model = resolveModel(req.params.model as string);
 
         if (!contents || !Array.isArray(contents)) {
-            res.status(400).json({ error: 'Invalid contents payload' });
+            sendGoogleError(res, 400, 'Invalid contents payload');
             return;
         }
         contents.forEach((c: any) => { if (!c.role) c.role = 'user'; });
+        const model = resolveModel(req.params.model as string, routingTraits(res, contents, finalSystemInstruction, tools));
 
         const finalToolConfig = toolConfig || tool_config;
         if (req.params.action === 'streamGenerateContent') {
             return handleStreamGenerateContent(req, res, model, contents, generationConfig, finalSystemInstruction, tools, finalToolConfig);
         }
 
-        const result = await tryGenerateContentWithAccounts(model, contents, generationConfig, finalSystemInstruction, tools, finalToolConfig);
-        if (!result) { res.status(503).json({ error: 'All Gemini accounts exhausted or failed.' }); return; }
+        const ctx = createRotationContext(req, res);
+        const result = await tryGenerateContentWithAccounts(model, contents, generationConfig, finalSystemInstruction, tools, finalToolConfig, ctx);
+        if (!result) { sendCategoryError(res, ctx.failureCategory); return; }
+        reportServedModel(res, ctx);
         res.json(result);
     } catch (e: any) {
         console.error('Generate Content Error:', e);
-        res.status(500).json({ error: 'Internal Server Error', ...(process.env.NODE_ENV !== 'production' && { message: e.message }) });
+        sendInternalError(res, e);
     }
 };
 
+/**
+ * Records a request that stopped early: abandoned by the client, or past its
+ * `X-OpenGem-Timeout-Ms` deadline. Neither is counted as an account failure.
+ */
+function logCancelled(db: any, ctx: RotationContext, email: string, contents: any[], systemInstruction: any, model: string) {
+    if (isTimedOut(ctx.signal)) {
+        ctx.failureCategory = 'timeout';
+        console.log(`⏳ Request deadline reached${email ? ` (was on ${email})` : ''}.`);
+        logRequest(db, email, contents, 'ERROR: Request deadline reached', 0, false, systemInstruction, model, false);
+        return;
+    }
+    console.log(`🛑 Request cancelled by client${email ? ` (was on ${email})` : ''}.`);
+    logRequest(db, email, contents, 'Cancelled by client', 0, false, systemInstruction, model, false, 'cancelled');
+}
+
 // ─── Non-streaming rotation ───────────────────────────────
 
+/** Per-request state shared with the rotation loops. */
+export interface RotationContext {
+    /** Aborted when the client disconnects — stops the rotation and the in-flight upstream call. */
+    signal?: AbortSignal;
+    /** Set by the rotation loops to the category of the last upstream error, so callers can report why every account failed. */
+    failureCategory?: ErrorCategory;
+    /** Answer from / store into the response cache. Only non-streaming generation consults it. */
+    cache?: boolean;
+    /**
+     * Share one upstream call with identical requests already in flight instead of
+     * starting another. Only applies to deterministic sampling (see `isDeterministic`).
+     */
+    coalesce?: boolean;
+    /** Set on success to the account and model that produced the answer. */
+    servedBy?: { email: string; model: string };
+    /** Starts the account rotation further in, so the calls of a candidate fan-out land on different accounts. */
+    accountOffset?: number;
+    /** Validate non-streaming answers against the request's responseSchema, repairing or re-asking on failure. */
+    structured?: boolean;
+    /** Per-request routing overrides from `X-OpenGem-*` headers; the timeout is already part of `signal`. */
+    routing?: Omit<RoutingOptions, 'timeoutMs'>;
+    /** Set by the rotation loops to the strategy that ordered the accounts, or 'affinity' for a pinned session, for the request log. */
+    selectedBy?: RequestLog['selectedBy'];
+    /** Session affinity for client requests; the generation entry points fill in its key. */
+    affinity?: SessionAffinity;
+    /** Account pools the request may draw from; every account if absent (admin chat). */
+    pools?: string[];
+}
+
+/**
+ * Coalescing key: the request fingerprint plus the per-request settings that can
+ * change the answer, and the pools — a request must not wait on a call made from
+ * accounts it may not use, or be failed by a pool it doesn't draw from.
+ */
+function flightKey(fingerprint: string, ctx: RotationContext): string {
+    return [
+        fingerprint,
+        ctx.structured ? 'structured' : '',
+        ctx.routing ? JSON.stringify(ctx.routing) : '',
+        ctx.pools ? `pools=${ctx.pools.join(',')}` : '',
+    ].filter(Boolean).join(':');
+}
+
+/**
+ * True when identical requests are meant to get the same answer: temperature 0 or
+ * a fixed seed. Anything else asks for a fresh sample each time, so it is never coalesced.
+ */
+function isDeterministic(generationConfig: any): boolean {
+    return generationConfig?.temperature === 0 || Number.isInteger(generationConfig?.seed);
+}
+
+// Identical concurrent generateContent calls, keyed by request fingerprint
+const generateFlights = new SingleFlight<any | null, RotationContext>();
+
 export async function tryGenerateContentWithAccounts(
     model: string, contents: any[],
-    generationConfig?: any, systemInstruction?: any, tools?: any[], toolConfig?: any
+    generationConfig?: any, systemInstruction?: any, tools?: any[], toolConfig?: any,
+    ctx: RotationContext = {}
+): Promise<any | null> {
+    const db = getDatabase();
+    const requestedModel = model || DEFAULT_MODEL;
+    if (ctx.affinity) ctx.affinity.key ??= affinityKeyFor(ctx.affinity, contents, systemInstruction);
+    const coalesce = ctx.coalesce && isDeterministic(generationConfig);
+    const fingerprint = ctx.cache || coalesce
+        ? requestFingerprint(requestedModel, contents, generationConfig, systemInstruction, tools, toolConfig)
+        : null;
+    const cacheKey = ctx.cache ? fingerprint : null;
+    const candidates = candidateCountOf(generationConfig);
+    const run = (runCtx: RotationContext) => candidates > 1
+        ? generateCandidates(candidates, model, contents, generationConfig, systemInstruction, tools, toolConfig, runCtx, cacheKey)
+        : generateAnswer(model, contents, generationConfig, systemInstruction, tools, toolConfig, runCtx, cacheKey);
+
+    if (cacheKey) {
+        try {
+            const cached = await getCachedResponse(cacheKey);
+            // With fallback off, an answer a fallback model produced must not stand in for the requested one
+            if (cached && !(ctx.routing?.fallback === false && cached.model !== requestedModel)) {
+                ctx.servedBy = { email: cached.accountEmail, model: cached.model };
+                db.incrementCacheHits().catch((err: any) => console.error('Stats write error:', err));
+                logRequest(db, cached.accountEmail, contents, extractText(cached.response.candidates?.[0]), 0, true, systemInstruction, cached.model, cached.model !== requestedModel, 'cache_hit');
+                console.log(`📦 Served from response cache [${cached.model}]`);
+                return cached.response;
+            }
+        } catch (err) {
+            console.error('❌ Response cache lookup failed:', err);
+        }
+    }
+
+    if (!fingerprint || !coalesce) return run(ctx);
+
+    // Requests that differ in enforcement, routing overrides or pools never share a call (see flightKey)
+    const ticket = generateFlights.join(flightKey(fingerprint, ctx), ctx.signal, signal => {
+        const shared = inheritContext(ctx, { signal });
+        return { result: run(shared), shared };
+    });
+
+    try {
+        const response = await ticket.result;
+        ctx.failureCategory = ticket.shared.failureCategory;
+        ctx.servedBy = ticket.shared.servedBy;
+        if (ticket.leader || !response) return response;
+
+        const servedBy = ticket.shared.servedBy;
+        logRequest(db, servedBy?.email || '', contents, extractText(response.candidates?.[0]), 0, true, systemInstruction, servedBy?.model, servedBy ? servedBy.model !== requestedModel : undefined, 'coalesced');
+        console.log(`🔗 Answered by an identical in-flight request${servedBy ? ` [${servedBy.email}]` : ''}`);
+        return JSON.parse(JSON.stringify(response)); // Each caller may adapt its copy in place
+    } catch (err) {
+        if (ctx.signal?.aborted) {
+            // This client left or ran out of time; the shared call carries on for the others
+            if (isTimedOut(ctx.signal)) ctx.failureCategory = 'timeout';
+            return null;
+        }
+        throw err;
+    }
+}
+
+/** One answer: a plain rotation, or a schema-enforced one when the request has a responseSchema and asks for it. */
+function generateAnswer(
+    model: string, contents: any[],
+    generationConfig: any, systemInstruction: any, tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext, cacheKey: string | null
+): Promise<any | null> {
+    const schema = ctx.structured ? schemaOf(generationConfig) : undefined;
+    return schema
+        ? generateStructured(schema, model, contents, generationConfig, systemInstruction, tools, toolConfig, ctx, cacheKey)
+        : generateWithRotation(model, contents, generationConfig, systemInstruction, tools, toolConfig, ctx, cacheKey);
+}
+
+/** A successful upstream answer and where it came from. */
+interface Answer {
+    response: any;
+    email: string;
+    model: string;
+    tokens: number;
+}
+
+async function generateWithRotation(
+    model: string, contents: any[],
+    generationConfig: any, systemInstruction: any, tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext, cacheKey: string | null
 ): Promise<any | null> {
     const db = getDatabase();
+    const requestPayload = buildPayload(contents, generationConfig, systemInstruction, tools, toolConfig);
+
+    const fulfil = ({ response, email, model: usedModel, tokens }: Answer) => {
+        ctx.servedBy = { email, model: usedModel };
+        if (ctx.affinity && !ctx.accountOffset) pinSession(ctx.affinity, email);
+        // Caching never delays or fails the response it is given
+        if (cacheKey) storeCachedResponse(cacheKey, response, usedModel, email, tokens).catch(err => console.error('❌ Response cache write failed:', err));
+        return response;
+    };
+
+    /**
+     * One call on one account, including its fallback chain. Failures are recorded
+     * here and yield null; so does an aborted signal, which is either the client
+     * leaving or the other side of a hedge having won — neither is the account's fault.
+     */
+    const callAccount = async (account: Account, signal: AbortSignal): Promise<Answer | null> => {
+        try {
+            const token = await ensureFreshToken(account);
+            let usedModel = model || DEFAULT_MODEL;
+
+            // First try with requested model
+            const geminiBody = (m: string) => ({
+                model: m, project: account.projectId,
+                user_prompt_id: 'default-prompt', request: requestPayload,
+            });
+
+            const response = await geminiRequestSemaphore.run(() =>
+                nativeFetch(`${GEMINI_API_BASE}:generateContent`, {
+                    method: 'POST', headers: buildHeaders(token),
+                    body: JSON.stringify(geminiBody(usedModel)),
+                    signal,
+                }),
+                signal
+            );
+
+            if (response.status === 429) {
+                // Walk the model's fallback chain on this account before marking cooldown
+                let previous = usedModel;
+                for (const fallback of fallbacksFor(usedModel, ctx).filter(m => canServeModel(account, m))) {
+                    console.warn(`⏳ ${account.email} 429 on ${previous} — trying ${fallback}...`);
+                    previous = fallback;
+                    const fbResp = await nativeFetch(`${GEMINI_API_BASE}:generateContent`, {
+                        method: 'POST', headers: buildHeaders(token),
+                        body: JSON.stringify(geminiBody(fallback)),
+                        signal,
+                    });
+                    if (!fbResp.ok) {
+                        recordModelFailure(account.email, fallback, fbResp.status, await fbResp.text());
+                    } else {
+                        const data = await fbResp.json() as any;
+                        const text = extractText(data.response?.candidates?.[0]);
+                        const tokens = data.usageMetadata?.totalTokenCount || data.response?.usageMetadata?.totalTokenCount || 0;
+                        if (text) {
+                            recordModelAvailable(account.email, fallback);
+                            markAccountSuccess(account.email);
+                            await db.incrementAccountStats(account.email, { successful: 1, failed: 0, tokens });
+                            logRequest(db, account.email, contents, text, tokens, true, systemInstruction, fallback, true, undefined, ctx.selectedBy);
+                            console.log(`✅ Fallback fulfilled by ${account.email} [${fallback}]`);
+                            return { response: data.response, email: account.email, model: fallback, tokens };
+                        }
+                    }
+                }
+
+                // Classify and apply cooldown
+                let errCategory: 'quota' | 'rate_limit' = 'rate_limit';
+                try { errCategory = classify429(await response.text()); } catch { /* ignore */ }
+                markAccountCooldown(account.email, errCategory === 'quota' ? 'quota' : 'rate_limit');
+                ctx.failureCategory = errCategory;
+                await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
+                logRequest(db, account.email, contents, `ERROR 429: ${errCategory} cooldown`, 0, false, systemInstruction, usedModel, false, undefined, ctx.selectedBy);
+                return null;
+            }
+
+            if (!response.ok) {
+                const text = await response.text();
+                console.error(`❌ API error ${response.status} for ${account.email}: ${text}`);
+                ctx.failureCategory = classifyError(`${response.status} ${text}`);
+                recordModelFailure(account.email, usedModel, response.status, text);
+                await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
+                logRequest(db, account.email, contents, `ERROR ${response.status}: ${text.substring(0, 100)}`, 0, false, systemInstruction, usedModel, false, undefined, ctx.selectedBy);
+                return null;
+            }
 
-    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
-        const accounts = await selectReadyAccounts();
+            const data = await response.json() as any;
+            const text = extractText(data.response?.candidates?.[0]);
+            const tokens = data.usageMetadata?.totalTokenCount || data.response?.usageMetadata?.totalTokenCount || 0;
+            if (text) {
+                recordModelAvailable(account.email, usedModel);
+                markAccountSuccess(account.email);
+                await db.incrementAccountStats(account.email, { successful: 1, failed: 0, tokens });
+                logRequest(db, account.email, contents, text, tokens, true, systemInstruction, usedModel, false, undefined, ctx.selectedBy);
+                console.log(`✅ Fulfilled by ${account.email}`);
+                return { response: data.response, email: account.email, model: usedModel, tokens };
+            }
+        } catch (e: any) {
+            if (signal.aborted) return null;
+            console.error(`❌ Error with ${account.email}:`, e);
+            const cat = classifyError(e.message || '');
+            markAccountCooldown(account.email, cat);
+            ctx.failureCategory = cat;
+            await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
+            logRequest(db, account.email, contents, `ERROR: ${e.message?.substring(0, 100) || 'Network Error'}`, 0, false, systemInstruction, model || DEFAULT_MODEL, false, undefined, ctx.selectedBy);
+        }
+        return null;
+    };
+
+    // Feeds the outcome to the selection strategies
+    const attemptOn = async (account: Account, signal: AbortSignal): Promise<Answer | null> => {
+        const tracker = trackAttempt(account.email);
+        const answer = await callAccount(account, signal);
+        if (answer) tracker.succeed();
+        else if (signal.aborted) tracker.abandon();
+        else tracker.fail();
+        return answer;
+    };
+
+    const maxAttempts = ctx.routing?.maxAttempts ?? MAX_ATTEMPTS;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const accounts = await selectReadyAccounts(ctx, model || DEFAULT_MODEL);
         if (accounts.length === 0) { console.error('❌ No active accounts.'); return null; }
+        // Accounts already used this round, including as hedges
+        const tried = new Set<string>();
+
+        // A hedge goes to the next ready account: no probes, and only if the local rate limiter allows it
+        const pickHedge = (after: number) => {
+            const backup = accounts.slice(after + 1).find(a =>
+                !tried.has(a.email) && !isAccountInCooldown(a.email) && accountRateLimiter.consume(a.email).allowed
+            );
+            if (!backup) return null;
+            tried.add(backup.email);
+            console.log(`🏁 Hedging on ${backup.email}...`);
+            return (signal: AbortSignal) => attemptOn(backup, signal);
+        };
 
         for (let i = 0; i < accounts.length; i++) {
             const account = accounts[i];
 
+            if (ctx.signal?.aborted) { logCancelled(db, ctx, '', contents, systemInstruction, model || DEFAULT_MODEL); return null; }
+            if (tried.has(account.email)) continue;
+
             // Skip accounts in cooldown (unless probe window reached)
             if (isAccountInCooldown(account.email)) {
                 if (shouldProbeAccount(account.email)) { console.log(`🔍 Probing ${account.email}...`); recordProbe(account.email); }
@@ -185,103 +647,316 @@ export async function tryGenerateContentWithAccounts(
             }
 
             // Stagger account attempts to avoid IP-level burst throttling
-            if (i > 0) await new Promise(r => setTimeout(r, INTER_ACCOUNT_STAGGER_MS));
+            if (i > 0) await sleep(INTER_ACCOUNT_STAGGER_MS, ctx.signal);
 
-            try {
-                const token = await ensureFreshToken(account);
-                const requestPayload = buildPayload(contents, generationConfig, systemInstruction, tools, toolConfig);
-                let usedModel = model || DEFAULT_MODEL;
+            tried.add(account.email);
+            const answer = await raceWithHedge(signal => attemptOn(account, signal), () => pickHedge(i), ctx.signal);
+            if (answer) return fulfil(answer);
+            if (ctx.signal?.aborted) { logCancelled(db, ctx, account.email, contents, systemInstruction, model || DEFAULT_MODEL); return null; }
+        }
 
-                // First try with requested model
-                const geminiBody = (m: string) => ({
-                    model: m, project: account.projectId,
-                    user_prompt_id: 'default-prompt', request: requestPayload,
-                });
+        if (attempt < maxAttempts - 1) {
+            const delay = computeBackoffDelay(attempt);
+            console.log(`⚠️ All accounts failed (${attempt + 1}/${maxAttempts}). Backoff: ${delay}ms...`);
+            await sleep(delay, ctx.signal);
+        }
+    }
+    return null;
+}
 
-                const response = await geminiRequestSemaphore.run(() =>
-                    nativeFetch(`${GEMINI_API_BASE}:generateContent`, {
-                        method: 'POST', headers: buildHeaders(token),
-                        body: JSON.stringify(geminiBody(usedModel)),
-                    })
-                );
-
-                if (response.status === 429) {
-                    // Try fallback model before marking cooldown
-                    const fallback = getFallbackModel(usedModel);
-                    if (fallback) {
-                        console.warn(`⏳ ${account.email} 429 on ${usedModel} — trying ${fallback}...`);
-                        const fbResp = await nativeFetch(`${GEMINI_API_BASE}:generateContent`, {
-                            method: 'POST', headers: buildHeaders(token),
-                            body: JSON.stringify(geminiBody(fallback)),
-                        });
-                        if (fbResp.ok) {
-                            const data = await fbResp.json() as any;
-                            const text = extractText(data.response?.candidates?.[0]);
-                            const tokens = data.usageMetadata?.totalTokenCount || data.response?.usageMetadata?.totalTokenCount || 0;
-                            if (text) {
-                                markAccountSuccess(account.email);
-                                await db.incrementAccountStats(account.email, { successful: 1, failed: 0, tokens });
-                                logRequest(db, account.email, contents, text, tokens, true, systemInstruction, fallback, true);
-                                console.log(`✅ Fallback fulfilled by ${account.email} [${fallback}]`);
-                                return data.response;
-                            }
-                        }
-                    }
+/**
+ * Emulates `candidateCount > 1`: runs one single-candidate rotation per candidate in
+ * parallel, each starting on a different account, and merges the answers into one
+ * response. Candidates that could not be generated are left out rather than failing
+ * the others; only complete sets are cached.
+ */
+async function generateCandidates(
+    count: number, model: string, contents: any[],
+    generationConfig: any, systemInstruction: any, tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext, cacheKey: string | null
+): Promise<any | null> {
+    const single = singleCandidateConfig(generationConfig);
+    const runs = Array.from({ length: count }, (_, i) => inheritContext(ctx, { accountOffset: i }));
+    const responses = await Promise.all(runs.map(run =>
+        generateAnswer(model, contents, single, systemInstruction, tools, toolConfig, run, null)
+    ));
+
+    ctx.failureCategory = runs.map(run => run.failureCategory).filter(Boolean).pop();
+    const answered = runs.flatMap((run, i) => responses[i] ? [{ run, response: responses[i] }] : []);
+    if (answered.length === 0) return null;
+    if (answered.length < count) console.warn(`⚠️ Only ${answered.length}/${count} candidates could be generated.`);
+
+    const merged = {
+        ...answered[0].response,
+        candidates: answered.map(({ response }, index) => ({ ...response.candidates?.[0], index })),
+        usageMetadata: sumUsage(answered.map(({ response }) => response.usageMetadata)),
+    };
+    const servedBy = answered[0].run.servedBy;
+    ctx.servedBy = servedBy;
+    if (cacheKey && servedBy && answered.length === count) {
+        storeCachedResponse(cacheKey, merged, servedBy.model, servedBy.email, merged.usageMetadata.totalTokenCount || 0)
+            .catch(err => console.error('❌ Response cache write failed:', err));
+    }
+    return merged;
+}
 
-                    // Classify and apply cooldown
-                    let errCategory: 'quota' | 'rate_limit' = 'rate_limit';
-                    try { errCategory = classify429(await response.text()); } catch { /* ignore */ }
-                    markAccountCooldown(account.email, errCategory === 'quota' ? 'quota' : 'rate_limit');
-                    await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
-                    logRequest(db, account.email, contents, `ERROR 429: ${errCategory} cooldown`, 0, false, systemInstruction, usedModel, false);
-                    continue;
-                }
+/**
+ * Generation with responseSchema enforcement: the answer is validated and, failing
+ * that, repaired or re-asked for with the validation errors up to the configured
+ * number of retries. Every failed check is logged with its schema errors. When all
+ * retries fail the last answer is returned as-is; only valid answers are cached.
+ */
+async function generateStructured(
+    schema: any, model: string, contents: any[],
+    generationConfig: any, systemInstruction: any, tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext, cacheKey: string | null
+): Promise<any | null> {
+    const db = getDatabase();
+    const { maxRetries } = getStructuredOutputConfig();
+    let requestContents = contents;
+
+    for (let attempt = 0; ; attempt++) {
+        const response = await generateWithRotation(model, requestContents, generationConfig, systemInstruction, tools, toolConfig, ctx, null);
+        if (!response) return null;
+
+        const parts: any[] = response.candidates?.[0]?.content?.parts ?? [];
+        const answer = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+        const check = checkStructuredOutput(answer, schema);
+        const servedBy = ctx.servedBy;
+
+        if (check.ok) {
+            if (check.repaired) {
+                response.candidates[0].content.parts = [...parts.filter(p => p.thought || !p.text), { text: check.text }];
+                console.log(`🔧 Repaired structured output from ${servedBy?.email}`);
+            }
+            if (cacheKey && servedBy) {
+                storeCachedResponse(cacheKey, response, servedBy.model, servedBy.email, response.usageMetadata?.totalTokenCount || 0)
+                    .catch(err => console.error('❌ Response cache write failed:', err));
+            }
+            return response;
+        }
 
-                if (!response.ok) {
-                    const text = await response.text();
-                    console.error(`❌ API error ${response.status} for ${account.email}: ${text}`);
-                    await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
-                    logRequest(db, account.email, contents, `ERROR ${response.status}: ${text.substring(0, 100)}`, 0, false, systemInstruction, usedModel, false);
-                    continue;
-                }
+        const summary = check.errors.join('; ');
+        console.warn(`⚠️ Structured output failed schema validation (${attempt + 1}/${maxRetries + 1}) from ${servedBy?.email}: ${summary}`);
+        logRequest(db, servedBy?.email || '', contents, `SCHEMA ERROR: ${summary}`, 0, false, systemInstruction, servedBy?.model, false);
+        if (attempt >= maxRetries || ctx.signal?.aborted) return response;
+        requestContents = buildRetryContents(contents, answer, check.errors);
+    }
+}
 
-                const data = await response.json() as any;
-                const text = extractText(data.response?.candidates?.[0]);
-                const tokens = data.usageMetadata?.totalTokenCount || data.response?.usageMetadata?.totalTokenCount || 0;
-                if (text) {
-                    markAccountSuccess(account.email);
-                    await db.incrementAccountStats(account.email, { successful: 1, failed: 0, tokens });
-                    logRequest(db, account.email, contents, text, tokens, true, systemInstruction, usedModel, false);
-                    console.log(`✅ Fulfilled by ${account.email}`);
-                    return data.response;
-                }
-            } catch (e: any) {
-                console.error(`❌ Error with ${account.email}:`, e);
-                const cat = classifyError(e.message || '');
-                markAccountCooldown(account.email, cat);
-                await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
-                logRequest(db, account.email, contents, `ERROR: ${e.message?.substring(0, 100) || 'Network Error'}`, 0, false, systemInstruction, model || DEFAULT_MODEL, false);
+// ─── Streaming: output formats ───────────────────────────
+
+/**
+ * Serialises parsed Gemini stream chunks into a client wire format.
+ * The default is Gemini-style SSE; protocol adapters (OpenAI, Anthropic, ...)
+ * supply their own so they can reuse the same account rotation.
+ */
+export interface StreamFormatter {
+    /** Response headers written once an upstream stream has been accepted. */
+    headers: Record<string, string>;
+    writeChunk(res: Response, chunk: any): void;
+    writeModelChange(res: Response, model: string): void;
+    /** Upstream lines that could not be parsed as JSON. */
+    writeRaw?(res: Response, line: string): void;
+    /** Called when the upstream stream ends normally. */
+    end(res: Response): void;
+    /**
+     * Called when every account failed, with the category of the last upstream error.
+     * Check `res.headersSent` to know if a status can still be set.
+     */
+    fail(res: Response, message: string, category?: ErrorCategory): void;
+}
+
+export const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+};
+
+const sseFormatter: StreamFormatter = {
+    headers: SSE_HEADERS,
+    writeChunk(res, chunk) { res.write(`data: ${JSON.stringify(chunk)}\n\n`); },
+    writeModelChange(res, model) { res.write(`data: ${JSON.stringify({ openGemModelChange: model })}\n\n`); },
+    writeRaw(res, line) { res.write(line + '\n\n'); },
+    end(res) { res.end(); },
+    fail(res, message, category = 'unknown') {
+        if (!res.headersSent) sendCategoryError(res, category);
+        else if (!res.writableEnded) { res.write(`data: ${JSON.stringify({ error: message })}\n\n`); res.end(); }
+    },
+};
+
+/**
+ * Gemini's default (non-`alt=sse`) stream format: a single JSON array written
+ * progressively, one response object per element.
+ */
+function createJsonArrayFormatter(): StreamFormatter {
+    let opened = false;
+
+    const writeElement = (res: Response, value: any) => {
+        res.write((opened ? ',\r\n' : '[') + JSON.stringify(value));
+        opened = true;
+    };
+
+    return {
+        headers: {
+            'Content-Type': 'application/json; charset=UTF-8',
+            'Cache-Control': 'no-cache',
+            'X-Accel-Buffering': 'no',
+        },
+        writeChunk: writeElement,
+        writeModelChange(res, model) { writeElement(res, { openGemModelChange: model }); },
+        end(res) {
+            res.end(opened ? ']' : '[]');
+        },
+        fail(res, message, category = 'unknown') {
+            if (!res.headersSent) sendCategoryError(res, category);
+            else if (!res.writableEnded) { writeElement(res, { error: { message } }); res.end(']'); }
+        },
+    };
+}
+
+// ─── Streaming: fan-out to clients ───────────────────────
+
+/** What has been forwarded to the client so far, across every account that served part of the stream. */
+interface StreamProgress {
+    /** Visible answer text — replayed as a model turn when the stream continues on another account. */
+    text: string;
+    /** Answer as logged (includes thoughts and tool call summaries). */
+    fullAnswer: string;
+    hasFunctionCall: boolean;
+}
+
+/** One client reading a (possibly shared) stream. */
+interface StreamSubscriber {
+    res: Response;
+    formatter: StreamFormatter;
+    /** Admin chat writes its own SSE headers first and reads the raw Code Assist envelope. */
+    headersAlreadySent: boolean;
+}
+
+/** Where a streaming rotation writes its output. */
+interface StreamSink {
+    readonly progress: StreamProgress;
+    /** True once output (or the response headers) have gone out to the clients. */
+    readonly committed: boolean;
+    /** Commits the response: headers, plus a model-change notice when a fallback model serves it. */
+    commit(usedModel: string): void;
+    chunk(parsed: any): void;
+    raw(line: string): void;
+    end(): void;
+    fail(message: string, category?: ErrorCategory): void;
+    /** Ends committed responses that cannot be completed (no more continuations possible). */
+    close(): void;
+}
+
+/**
+ * Delivers one rotation's output to every client that asked for the same stream.
+ * While late joiners are possible, events are recorded, so a client that joins
+ * after output has started is first replayed what it missed and then follows live.
+ */
+export class StreamBroadcast implements StreamSink {
+    readonly progress: StreamProgress = { text: '', fullAnswer: '', hasFunctionCall: false };
+    committed = false;
+    private readonly subscribers = new Set<StreamSubscriber>();
+    private history: Array<(sub: StreamSubscriber) => void> | null;
+
+    /** `replayable` records events for late joiners; off when nobody else can join the stream. */
+    constructor(private readonly requestedModel: string, replayable: boolean) {
+        this.history = replayable ? [] : null;
+    }
+
+    /** Drops the recorded events once no further client can join. */
+    stopRecording(): void {
+        this.history = null;
+    }
+
+    subscribe(sub: StreamSubscriber): void {
+        for (const event of this.history ?? []) event(sub);
+        this.subscribers.add(sub);
+    }
+
+    unsubscribe(sub: StreamSubscriber): void {
+        this.subscribers.delete(sub);
+    }
+
+    commit(usedModel: string): void {
+        this.committed = true;
+        this.emit(({ res, formatter, headersAlreadySent }) => {
+            if (!headersAlreadySent && !res.headersSent) res.writeHead(200, { ...formatter.headers, [SERVED_MODEL_HEADER]: usedModel });
+            if (usedModel !== this.requestedModel) formatter.writeModelChange(res, usedModel);
+        });
+    }
+
+    chunk(parsed: any): void {
+        this.emit(({ res, formatter, headersAlreadySent }) => {
+            let forwarded = parsed;
+            if (!headersAlreadySent && parsed.response) {
+                forwarded = { ...parsed.response };
+                if (parsed.usageMetadata) forwarded.usageMetadata = parsed.usageMetadata;
             }
-        }
+            formatter.writeChunk(res, forwarded);
+        });
+    }
 
-        if (attempt < MAX_ATTEMPTS - 1) {
-            const delay = computeBackoffDelay(attempt);
-            console.log(`⚠️ All accounts failed (${attempt + 1}/${MAX_ATTEMPTS}). Backoff: ${delay}ms...`);
-            await new Promise(r => setTimeout(r, delay));
-        }
+    raw(line: string): void {
+        this.emit(({ res, formatter }) => formatter.writeRaw?.(res, line));
+    }
+
+    end(): void {
+        this.emit(({ res, formatter }) => formatter.end(res));
+    }
+
+    fail(message: string, category?: ErrorCategory): void {
+        this.emit(({ res, formatter }) => formatter.fail(res, message, category));
+    }
+
+    close(): void {
+        this.emit(({ res }) => { if (!res.writableEnded) res.end(); });
+    }
+
+    private emit(event: (sub: StreamSubscriber) => void): void {
+        this.history?.push(event);
+        for (const sub of this.subscribers) event(sub);
     }
-    return null;
 }
 
 // ─── Streaming: pipe SSE to client ───────────────────────
 
-async function pipeStream(stream: any, res: Response, unwrapEnvelope: boolean): Promise<{ fullAnswer: string; tokenUsage: number }> {
+/**
+ * Pipes one upstream SSE stream into `out`. `onFirstChunk` runs before the first
+ * chunk is written, so nothing is committed to the clients until the upstream
+ * has actually produced output. Rejects if the stream errors, closes early, or sends
+ * nothing for longer than the first-chunk / stall timeouts.
+ */
+async function pipeStream(
+    stream: any, out: StreamSink, onFirstChunk: () => void
+): Promise<{ tokenUsage: number }> {
+    const progress = out.progress;
+
     return new Promise((resolve, reject) => {
-        let fullAnswer = '';
         let buffer = '';
         let tokenUsage = 0;
+        let started = false;
+        let settled = false;
+        let timer: NodeJS.Timeout | undefined;
+
+        const fail = (err: Error) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            stream.destroy();
+            reject(err);
+        };
+        const armTimer = (ms: number) => {
+            clearTimeout(timer);
+            timer = setTimeout(() => fail(new Error(`Stream timeout: no chunks for ${ms / 1000}s`)), ms);
+        };
+        armTimer(FIRST_CHUNK_TIMEOUT_MS);
 
         stream.on('data', (chunk: Buffer) => {
+            if (settled) return;
+            armTimer(STREAM_STALL_TIMEOUT_MS);
             buffer += chunk.toString('utf-8');
             const lines = buffer.split('\n');
             buffer = lines.pop() || '';
@@ -290,73 +965,148 @@ async function pipeStream(stream: any, res: Response, unwrapEnvelope: boolean):
                 if (!line.startsWith('data: ')) continue;
                 const jsonStr = line.substring(6).trim();
                 if (!jsonStr || jsonStr === '[DONE]') continue;
+                if (!started) { started = true; onFirstChunk(); }
+                let parsed: any;
                 try {
-                    const parsed = JSON.parse(jsonStr);
-                    const parts = parsed.candidates?.[0]?.content?.parts
-                        || parsed.response?.candidates?.[0]?.content?.parts;
-                    if (parts) {
-                        for (const p of parts) {
-                            if (p.text) fullAnswer += p.text;
-                            else if (p.functionCall) fullAnswer += `\n\n[Tool Call: ${p.functionCall.name}]\n${JSON.stringify(p.functionCall.args, null, 2)}\n\n`;
+                    parsed = JSON.parse(jsonStr);
+                } catch {
+                    out.raw(line);
+                    continue;
+                }
+                const parts = parsed.candidates?.[0]?.content?.parts
+                    || parsed.response?.candidates?.[0]?.content?.parts;
+                if (parts) {
+                    for (const p of parts) {
+                        if (p.text) {
+                            progress.fullAnswer += p.text;
+                            if (!p.thought) progress.text += p.text;
+                        } else if (p.functionCall) {
+                            progress.fullAnswer += `\n\n[Tool Call: ${p.functionCall.name}]\n${JSON.stringify(p.functionCall.args, null, 2)}\n\n`;
+                            progress.hasFunctionCall = true;
                         }
                     }
-                    const usage = parsed.usageMetadata || parsed.response?.usageMetadata;
-                    if (usage?.totalTokenCount) tokenUsage = usage.totalTokenCount;
-
-                    let forwarded = parsed;
-                    if (unwrapEnvelope && parsed.response) {
-                        forwarded = { ...parsed.response };
-                        if (parsed.usageMetadata) forwarded.usageMetadata = parsed.usageMetadata;
-                    }
-                    res.write(`data: ${JSON.stringify(forwarded)}\n\n`);
-                } catch {
-                    res.write(line + '\n\n');
                 }
+                const usage = parsed.usageMetadata || parsed.response?.usageMetadata;
+                if (usage?.totalTokenCount) tokenUsage = usage.totalTokenCount;
+
+                out.chunk(parsed);
             }
         });
 
         stream.on('end', () => {
-            res.end();
-            resolve({ fullAnswer, tokenUsage });
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            if (!started) onFirstChunk();
+            out.end();
+            resolve({ tokenUsage });
         });
-        stream.on('error', (err: Error) => { if (!res.writableEnded) res.end(); reject(err); });
+        stream.on('error', (err: Error) => fail(err));
+        // An aborted upstream may close without emitting 'error'; never leave the caller hanging
+        stream.on('close', () => fail(new Error('Upstream stream closed before completion')));
     });
 }
 
 // ─── Unified streaming account rotation ──────────────────
 
-async function streamWithAccounts(
+// Identical concurrent streams, keyed by request fingerprint
+const streamFlights = new SingleFlight<void, { broadcast: StreamBroadcast; ctx: RotationContext }>();
+
+export async function streamWithAccounts(
     model: string, contents: any[],
     generationConfig: any, systemInstruction: any,
     tools: any[] | undefined, toolConfig: any,
     res: Response,
-    headersAlreadySent: boolean  // true = admin chat (SSE headers sent before this call)
+    headersAlreadySent: boolean,  // true = admin chat (SSE headers sent before this call)
+    formatter: StreamFormatter = sseFormatter,
+    ctx: RotationContext = {}
+): Promise<void> {
+    const subscriber: StreamSubscriber = { res, formatter, headersAlreadySent };
+    if (ctx.affinity) ctx.affinity.key ??= affinityKeyFor(ctx.affinity, contents, systemInstruction);
+    const candidates = candidateCountOf(generationConfig);
+    const run = (out: StreamBroadcast, runCtx: RotationContext) => candidates > 1
+        ? streamCandidates(candidates, out, model, contents, generationConfig, systemInstruction, tools, toolConfig, runCtx)
+        : streamWithRotation(out, model, contents, generationConfig, systemInstruction, tools, toolConfig, runCtx);
+
+    // The rotation stops quietly on abort; a client that is still connected is told its deadline passed
+    const failIfTimedOut = () => {
+        if (isTimedOut(ctx.signal)) formatter.fail(res, 'Request deadline reached.', 'timeout');
+    };
+
+    if (!ctx.coalesce || !isDeterministic(generationConfig)) {
+        const broadcast = new StreamBroadcast(model, false);
+        broadcast.subscribe(subscriber);
+        await run(broadcast, ctx);
+        failIfTimedOut();
+        return;
+    }
+
+    const fingerprint = requestFingerprint(model || DEFAULT_MODEL, contents, generationConfig, systemInstruction, tools, toolConfig);
+    const ticket = streamFlights.join(flightKey(fingerprint, ctx), ctx.signal, signal => {
+        const broadcast = new StreamBroadcast(model, true);
+        const shared = inheritContext(ctx, { signal });
+        return { result: run(broadcast, shared), shared: { broadcast, ctx: shared }, onRetire: () => broadcast.stopRecording() };
+    });
+
+    const { broadcast } = ticket.shared;
+    broadcast.subscribe(subscriber);
+    try {
+        await ticket.result;
+    } catch {
+        failIfTimedOut();
+        return; // This client left or ran out of time; the stream carries on for the others
+    } finally {
+        broadcast.unsubscribe(subscriber);
+    }
+
+    const servedBy = ticket.shared.ctx.servedBy;
+    ctx.servedBy = servedBy;
+    ctx.failureCategory = ticket.shared.ctx.failureCategory;
+    if (!ticket.leader && servedBy) {
+        logRequest(getDatabase(), servedBy.email, contents, broadcast.progress.fullAnswer, 0, true, systemInstruction, servedBy.model, servedBy.model !== model, 'coalesced');
+        console.log(`🔗 Stream shared with an identical in-flight request [${servedBy.email}]`);
+    }
+}
+
+async function streamWithRotation(
+    out: StreamSink, model: string, contents: any[],
+    generationConfig: any, systemInstruction: any,
+    tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext
 ): Promise<void> {
     const db = getDatabase();
+    const progress = out.progress;
+    let requestContents = contents; // Grows a partial model turn + continue instruction after a mid-stream failure
+    let continuations = 0;
+    let tokensSoFar = 0;
 
-    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
-        const accounts = await selectReadyAccounts();
+    const maxAttempts = ctx.routing?.maxAttempts ?? MAX_ATTEMPTS;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const accounts = await selectReadyAccounts(ctx, model || DEFAULT_MODEL);
 
         if (accounts.length === 0) {
-            if (!res.headersSent) res.status(503).json({ error: 'All Gemini accounts exhausted or failed.' });
-            else if (!res.writableEnded) { res.write(`data: ${JSON.stringify({ error: 'All accounts exhausted.' })}\n\n`); res.end(); }
+            out.fail('All accounts exhausted.', ctx.failureCategory);
             return;
         }
 
         for (let i = 0; i < accounts.length; i++) {
             const account = accounts[i];
 
+            if (ctx.signal?.aborted) { logCancelled(db, ctx, '', contents, systemInstruction, model || DEFAULT_MODEL); return; }
+
             if (isAccountInCooldown(account.email)) {
                 if (shouldProbeAccount(account.email)) { console.log(`🔍 Probing ${account.email}...`); recordProbe(account.email); }
                 else continue;
             }
 
             // Stagger account attempts to avoid IP-level burst throttling
-            if (i > 0) await new Promise(r => setTimeout(r, INTER_ACCOUNT_STAGGER_MS));
+            if (i > 0) await sleep(INTER_ACCOUNT_STAGGER_MS, ctx.signal);
 
+            const tracker = trackAttempt(account.email);
+            const startedAt = Date.now();
             try {
                 const token = await ensureFreshToken(account);
-                const requestPayload = buildPayload(contents, generationConfig, systemInstruction, tools, toolConfig);
+                const requestPayload = buildPayload(requestContents, generationConfig, systemInstruction, tools, toolConfig);
                 let usedModel = model || DEFAULT_MODEL;
 
                 const geminiBody = (m: string) => ({
@@ -367,106 +1117,209 @@ async function streamWithAccounts(
                 let { status, stream } = await nativeFetchStream(`${GEMINI_API_BASE}:streamGenerateContent?alt=sse`, {
                     method: 'POST', headers: buildHeaders(token),
                     body: JSON.stringify(geminiBody(usedModel)),
+                    signal: ctx.signal,
                 });
 
                 if (status === 429) {
-                    console.warn(`⏳ Stream: ${account.email} 429 on ${usedModel} — trying fallback...`);
-                    const fallback = getFallbackModel(usedModel);
+                    console.warn(`⏳ Stream: ${account.email} 429 on ${usedModel} — trying fallback chain...`);
+                    const limited = stream;
 
-                    if (fallback) {
+                    // Walk the model's fallback chain on this account before marking cooldown
+                    for (const fallback of fallbacksFor(usedModel, ctx).filter(m => canServeModel(account, m))) {
                         const fbResult = await nativeFetchStream(`${GEMINI_API_BASE}:streamGenerateContent?alt=sse`, {
                             method: 'POST', headers: buildHeaders(token),
                             body: JSON.stringify(geminiBody(fallback)),
+                            signal: ctx.signal,
                         });
 
                         if (fbResult.status === 200) {
                             console.log(`✅ Stream fallback accepted by ${account.email} [${fallback}]`);
-                            // Drain and discard the original 429 stream
-                            stream.resume();
                             stream = fbResult.stream;
                             usedModel = fallback;
                             status = 200;
-                            // Fall through to success handling below
-                        } else {
-                            // Drain both streams before continuing
-                            await drainStream(fbResult.stream);
-                            const errText = await drainStream(stream);
-                            const cat = classify429(errText);
-                            markAccountCooldown(account.email, cat === 'quota' ? 'quota' : 'rate_limit');
-                            await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
-                            continue;
+                            break;
                         }
-                    } else {
-                        const errText = await drainStream(stream);
+                        console.warn(`⏳ Stream: ${account.email} ${fbResult.status} on ${fallback}`);
+                        recordModelFailure(account.email, fallback, fbResult.status, await drainStream(fbResult.stream));
+                    }
+
+                    if (status === 429) {
+                        const errText = await drainStream(limited);
                         const cat = classify429(errText);
                         markAccountCooldown(account.email, cat === 'quota' ? 'quota' : 'rate_limit');
+                        ctx.failureCategory = cat;
+                        tracker.fail();
                         await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
                         continue;
                     }
+                    // Drain and discard the original 429 stream, then fall through to success handling below
+                    limited.resume();
                 }
 
                 if (status < 200 || status >= 300) {
                     const text = await drainStream(stream);
                     console.error(`❌ Stream API error ${status} for ${account.email}: ${text.substring(0, 200)}`);
+                    ctx.failureCategory = classifyError(`${status} ${text}`);
+                    recordModelFailure(account.email, usedModel, status, text);
+                    tracker.fail();
                     await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
                     continue;
                 }
 
                 // ── Success: pipe stream to client ──
-                if (!headersAlreadySent && !res.headersSent) {
-                    res.writeHead(200, {
-                        'Content-Type': 'text/event-stream',
-                        'Cache-Control': 'no-cache',
-                        'Connection': 'keep-alive',
-                        'X-Accel-Buffering': 'no',
-                    });
-                }
-
-                if (usedModel !== model) {
-                    res.write(`data: ${JSON.stringify({ openGemModelChange: usedModel })}\n\n`);
-                }
-
+                // Headers are committed on the first upstream chunk, so a stream that never
+                // produces output can still fail over with a clean status.
                 try {
-                    const { fullAnswer, tokenUsage } = await pipeStream(stream, res, !headersAlreadySent);
+                    let firstChunkMs = 0;
+                    const { tokenUsage } = await pipeStream(stream, out, () => {
+                        firstChunkMs = Date.now() - startedAt;
+                        out.commit(usedModel);
+                    });
+                    tokensSoFar += tokenUsage;
+                    tracker.succeed(firstChunkMs); // Time to first chunk is comparable across answer lengths
+                    recordModelAvailable(account.email, usedModel);
                     markAccountSuccess(account.email);
                     await db.incrementAccountStats(account.email, { successful: 1, failed: 0, tokens: tokenUsage });
-                    logRequest(db, account.email, contents, fullAnswer, tokenUsage, true, systemInstruction, usedModel, usedModel !== model);
-                    console.log(`✅ Stream fulfilled by ${account.email} [${usedModel}]`);
+                    logRequest(db, account.email, contents, progress.fullAnswer, tokensSoFar, true, systemInstruction, usedModel, usedModel !== model, undefined, ctx.selectedBy);
+                    ctx.servedBy = { email: account.email, model: usedModel };
+                    if (ctx.affinity && !ctx.accountOffset) pinSession(ctx.affinity, account.email);
+                    console.log(`✅ Stream fulfilled by ${account.email} [${usedModel}]${continuations ? ` after ${continuations} continuation(s)` : ''}`);
                     return; // done
                 } catch (streamErr: any) {
+                    if (ctx.signal?.aborted) { logCancelled(db, ctx, account.email, contents, systemInstruction, usedModel); return; }
                     console.error(`❌ Stream pipe error for ${account.email}:`, streamErr);
                     const cat = classifyError(streamErr.message || '');
                     markAccountCooldown(account.email, cat);
+                    ctx.failureCategory = cat;
+                    tracker.fail();
                     await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
 
-                    // If headers were already sent, the HTTP response is committed.
-                    // Retrying with another account would write to an already-committed response,
-                    // causing a hard disconnect (NetworkError in browser).
-                    // End cleanly instead.
-                    if (res.headersSent) {
-                        if (!res.writableEnded) res.end();
-                        return;
+                    // Once bytes are committed the client cannot be given a fresh response, so the
+                    // answer continues on the next account: the partial output becomes a model turn
+                    // followed by an instruction to carry on, and the new chunks are stitched onto
+                    // the same stream. Tool calls can't be resumed mid-turn, so those streams just end.
+                    if (out.committed) {
+                        if (progress.hasFunctionCall || continuations >= MAX_STREAM_CONTINUATIONS) {
+                            out.close();
+                            return;
+                        }
+                        continuations++;
+                        requestContents = progress.text
+                            ? [...contents, { role: 'model', parts: [{ text: progress.text }] }, { role: 'user', parts: [{ text: CONTINUE_INSTRUCTION }] }]
+                            : contents;
+                        console.warn(`↪️ Stream from ${account.email} died mid-answer — continuing on another account (${continuations}/${MAX_STREAM_CONTINUATIONS})...`);
                     }
                     continue;
                 }
 
             } catch (e: any) {
+                if (ctx.signal?.aborted) { logCancelled(db, ctx, account.email, contents, systemInstruction, model || DEFAULT_MODEL); return; }
                 console.error(`❌ Stream network error with ${account.email}:`, e);
                 const cat = classifyError(e.message || '');
                 markAccountCooldown(account.email, cat);
+                ctx.failureCategory = cat;
+                tracker.fail();
                 await db.incrementAccountStats(account.email, { successful: 0, failed: 1, tokens: 0 });
+            } finally {
+                tracker.abandon(); // No-op once an outcome was recorded
             }
         }
 
-        if (attempt < MAX_ATTEMPTS - 1) {
+        if (attempt < maxAttempts - 1) {
             const delay = computeBackoffDelay(attempt);
-            console.log(`⚠️ Stream: All accounts failed (${attempt + 1}/${MAX_ATTEMPTS}). Backoff: ${delay}ms...`);
-            await new Promise(r => setTimeout(r, delay));
+            console.log(`⚠️ Stream: All accounts failed (${attempt + 1}/${maxAttempts}). Backoff: ${delay}ms...`);
+            await sleep(delay, ctx.signal);
         }
     }
 
-    if (!res.headersSent) res.status(503).json({ error: 'All Gemini accounts exhausted or failed.' });
-    else if (!res.writableEnded) { res.write(`data: ${JSON.stringify({ error: 'All accounts exhausted.' })}\n\n`); res.end(); }
+    out.fail('All accounts exhausted.', ctx.failureCategory);
+}
+
+// ─── Streaming: emulated candidates ──────────────────────
+
+/** Shared by the candidate streams of one fan-out; the response ends once every candidate has. */
+interface CandidateGroup {
+    pending: number;
+    succeeded: number;
+    /** Latest usageMetadata per candidate, summed into every forwarded chunk. */
+    usage: any[];
+    failure?: { message: string; category?: ErrorCategory };
+}
+
+/** One candidate's stream, written into the shared response with its own candidate index. */
+class CandidateStream implements StreamSink {
+    readonly progress: StreamProgress = { text: '', fullAnswer: '', hasFunctionCall: false };
+    committed = false;
+
+    constructor(private readonly out: StreamSink, private readonly index: number, private readonly group: CandidateGroup) { }
+
+    commit(usedModel: string): void {
+        this.committed = true;
+        if (!this.out.committed) this.out.commit(usedModel);
+    }
+
+    chunk(parsed: any): void {
+        const chunk = parsed.response ? { ...parsed, response: { ...parsed.response } } : { ...parsed };
+        const body = chunk.response ?? chunk;
+        if (body.candidates) body.candidates = body.candidates.map((c: any) => ({ ...c, index: this.index }));
+        for (const holder of new Set([chunk, body])) {
+            if (!holder.usageMetadata) continue;
+            this.group.usage[this.index] = holder.usageMetadata;
+            holder.usageMetadata = sumUsage(this.group.usage);
+        }
+        this.out.chunk(chunk);
+    }
+
+    raw(line: string): void {
+        this.out.raw(line);
+    }
+
+    end(): void {
+        this.group.succeeded++;
+        this.settle();
+    }
+
+    fail(message: string, category?: ErrorCategory): void {
+        this.group.failure = { message, category };
+        this.settle();
+    }
+
+    close(): void {
+        this.settle();
+    }
+
+    private settle(): void {
+        if (--this.group.pending > 0) return;
+        if (this.group.succeeded > 0) this.out.end();
+        else if (this.group.failure) this.out.fail(this.group.failure.message, this.group.failure.category);
+        else this.out.close();
+    }
+}
+
+/**
+ * Streaming counterpart of `generateCandidates`: the candidate streams run in parallel
+ * on different accounts and their chunks are interleaved as they arrive, each tagged
+ * with its candidate index.
+ */
+async function streamCandidates(
+    count: number, out: StreamSink, model: string, contents: any[],
+    generationConfig: any, systemInstruction: any,
+    tools: any[] | undefined, toolConfig: any,
+    ctx: RotationContext
+): Promise<void> {
+    const single = singleCandidateConfig(generationConfig);
+    const group: CandidateGroup = { pending: count, succeeded: 0, usage: [] };
+    const streams = Array.from({ length: count }, (_, i) => new CandidateStream(out, i, group));
+    const runs = streams.map((_, i) => inheritContext(ctx, { accountOffset: i }));
+
+    await Promise.all(streams.map((stream, i) =>
+        streamWithRotation(stream, model, contents, single, systemInstruction, tools, toolConfig, runs[i])
+    ));
+
+    out.progress.fullAnswer = streams.map(stream => stream.progress.fullAnswer).join('\n\n');
+    ctx.failureCategory = runs.map(run => run.failureCategory).filter(Boolean).pop();
+    ctx.servedBy = runs.find(run => run.servedBy)?.servedBy;
+    if (group.succeeded < count && group.succeeded > 0) console.warn(`⚠️ Only ${group.succeeded}/${count} candidate streams completed.`);
 }
 
 // ─── Public streaming (proxy) ─────────────────────────────
@@ -475,7 +1328,172 @@ function handleStreamGenerateContent(
     req: Request, res: Response, model: string, contents: any[],
     generationConfig?: any, systemInstruction?: any, tools?: any[], toolConfig?: any
 ): void {
-    streamWithAccounts(model, contents, generationConfig, systemInstruction, tools, toolConfig, res, false);
+    // Like the Gemini API, only `alt=sse` gets SSE; otherwise stream a JSON array
+    const formatter = req.query.alt === 'sse' ? sseFormatter : createJsonArrayFormatter();
+    streamWithAccounts(model, contents, generationConfig, systemInstruction, tools, toolConfig, res, false, formatter, createRotationContext(req, res));
+}
+
+// ─── Token counting ───────────────────────────────────────
+
+export const handleCountTokens = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // SDKs send either bare `contents` or a full `generateContentRequest`
+        const contents = req.body.contents || req.body.generateContentRequest?.contents;
+        const model = resolveModel(req.params.model as string);
+
+        if (!contents || !Array.isArray(contents)) {
+            sendGoogleError(res, 400, 'Invalid contents payload');
+            return;
+        }
+        contents.forEach((c: any) => { if (!c.role) c.role = 'user'; });
+
+        const ctx = createRotationContext(req, res);
+        const result = await tryCountTokensWithAccounts(model, contents, ctx);
+        if (!result) { sendCategoryError(res, ctx.failureCategory); return; }
+        res.json(result);
+    } catch (e: any) {
+        console.error('Count Tokens Error:', e);
+        sendInternalError(res, e);
+    }
+};
+
+/**
+ * Forwards a countTokens call to Code Assist, rotating accounts like generation does.
+ * Counting does not consume generation quota, so it is neither logged nor added to account stats.
+ */
+export async function tryCountTokensWithAccounts(
+    model: string, contents: any[], ctx: RotationContext = {}
+): Promise<{ totalTokens: number } | null> {
+    return withAccountRotation('countTokens', async (account, token) => {
+        const response = await geminiRequestSemaphore.run(() =>
+            nativeFetch(`${GEMINI_API_BASE}:countTokens`, {
+                method: 'POST', headers: buildHeaders(token),
+                body: JSON.stringify({ request: { model: `models/${model}`, contents } }),
+                signal: ctx.signal,
+            }),
+            ctx.signal
+        );
+
+        if (response.status === 429) {
+            ctx.failureCategory = classify429(await response.text());
+            markAccountCooldown(account.email, ctx.failureCategory);
+            return null;
+        }
+
+        if (!response.ok) {
+            const text = await response.text();
+            console.error(`❌ countTokens error ${response.status} for ${account.email}: ${text.substring(0, 200)}`);
+            ctx.failureCategory = classifyError(`${response.status} ${text}`);
+            return null;
+        }
+
+        const data = await response.json() as any;
+        markAccountSuccess(account.email);
+        return { totalTokens: data.totalTokens ?? data.response?.totalTokens ?? 0 };
+    }, ctx);
+}
+
+// ─── Auxiliary rotation ───────────────────────────────────
+
+/**
+ * Account rotation loop for the non-generation actions (counting).
+ * `fn` returns null to move on to the next account; thrown errors put the account
+ * into cooldown and are recorded in `ctx`.
+ */
+async function withAccountRotation<T>(
+    label: string,
+    fn: (account: Account, token: string) => Promise<T | null>,
+    ctx: RotationContext
+): Promise<T | null> {
+    const maxAttempts = ctx.routing?.maxAttempts ?? MAX_ATTEMPTS;
+    // A passed `X-OpenGem-Timeout-Ms` deadline is reported as such, not as the last upstream error
+    const stopped = () => {
+        if (isTimedOut(ctx.signal)) ctx.failureCategory = 'timeout';
+        return null;
+    };
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const accounts = await selectReadyAccounts(ctx);
+        if (accounts.length === 0) { console.error('❌ No active accounts.'); return null; }
+
+        for (let i = 0; i < accounts.length; i++) {
+            const account = accounts[i];
+
+            if (ctx.signal?.aborted) return stopped();
+
+            if (isAccountInCooldown(account.email)) {
+                if (shouldProbeAccount(account.email)) { console.log(`🔍 Probing ${account.email}...`); recordProbe(account.email); }
+                else continue;
+            }
+
+            if (!accountRateLimiter.consume(account.email).allowed) {
+                console.warn(`🚦 ${account.email} locally rate limited. Skipping.`);
+                continue;
+            }
+
+            if (i > 0) await sleep(INTER_ACCOUNT_STAGGER_MS, ctx.signal);
+
+            const tracker = trackAttempt(account.email);
+            try {
+                const token = await ensureFreshToken(account);
+                const result = await fn(account, token);
+                if (result !== null) {
+                    tracker.succeed();
+                    return result;
+                }
+                tracker.fail();
+            } catch (e: any) {
+                if (ctx.signal?.aborted) return stopped();
+                console.error(`❌ ${label} error with ${account.email}:`, e);
+                ctx.failureCategory = classifyError(e.message || '');
+                markAccountCooldown(account.email, ctx.failureCategory);
+                tracker.fail();
+            } finally {
+                tracker.abandon(); // No-op once an outcome was recorded
+            }
+        }
+
+        if (attempt < maxAttempts - 1) {
+            const delay = computeBackoffDelay(attempt);
+            console.log(`⚠️ ${label}: All accounts failed (${attempt + 1}/${maxAttempts}). Backoff: ${delay}ms...`);
+            await sleep(delay, ctx.signal);
+        }
+    }
+    return null;
+}
+
+// ─── Model availability rechecks ──────────────────────────
+
+/**
+ * Asks each account marked unable to serve a model, with a one-token request,
+ * whether that is still so. Run by the periodic background job; accounts that are
+ * cooling down or no longer active wait for the next interval.
+ */
+export async function recheckModelAvailability(): Promise<void> {
+    const due = getDueRechecks();
+    if (due.length === 0) return;
+    const accounts = await getReadyAccounts();
+
+    for (const { email, model } of due) {
+        const account = accounts.find(a => a.email === email);
+        if (!account || isAccountInCooldown(email)) { touchRecheck(email, model); continue; }
+        try {
+            const token = await ensureFreshToken(account);
+            const response = await geminiRequestSemaphore.run(() =>
+                nativeFetch(`${GEMINI_API_BASE}:generateContent`, {
+                    method: 'POST', headers: buildHeaders(token),
+                    body: JSON.stringify({
+                        model, project: account.projectId, user_prompt_id: 'default-prompt',
+                        request: buildPayload([{ role: 'user', parts: [{ text: 'ping' }] }], { maxOutputTokens: 1 }),
+                    }),
+                })
+            );
+            if (response.ok) recordModelAvailable(email, model);
+            else if (!recordModelFailure(email, model, response.status, await response.text())) touchRecheck(email, model);
+        } catch (err) {
+            console.error(`❌ Availability recheck of ${model} on ${email} failed:`, err);
+            touchRecheck(email, model);
+        }
+    }
 }
 
 // ─── Admin chat ───────────────────────────────────────────
@@ -484,23 +1502,18 @@ export async function handleAdminChat(req: Request, res: Response): Promise<void
     try {
         const { contents, model: reqModel, generationConfig, systemInstruction, system_instruction, tools, toolConfig, tool_config } = req.body;
         const finalSystemInstruction = systemInstruction || system_instruction;
-        const model = resolveModel(reqModel || DEFAULT_MODEL);
 
         if (!contents || !Array.isArray(contents)) {
             res.status(400).json({ error: 'Invalid contents payload' });
             return;
         }
         contents.forEach((c: any) => { if (!c.role) c.role = 'user'; });
+        const model = resolveModel(reqModel || DEFAULT_MODEL, { contents, systemInstruction: finalSystemInstruction, tools });
 
         // Admin chat sends SSE headers first, then rotates
-        res.writeHead(200, {
-            'Content-Type': 'text/event-stream',
-            'Cache-Control': 'no-cache',
-            'Connection': 'keep-alive',
-            'X-Accel-Buffering': 'no',
-        });
+        res.writeHead(200, SSE_HEADERS);
 
-        await streamWithAccounts(model, contents, generationConfig, finalSystemInstruction, tools, toolConfig || tool_config, res, true);
+        await streamWithAccounts(model, contents, generationConfig, finalSystemInstruction, tools, toolConfig || tool_config, res, true, sseFormatter, { signal: abortOnClientDisconnect(res) });
     } catch (e: any) {
         console.error('Admin Chat Error:', e);
         if (!res.headersSent) res.status(500).json({ error: 'Internal Server Error' });
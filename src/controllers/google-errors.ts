@@ -0,0 +1,101 @@
+/**
+ * Google-style error responses for the Gemini-compatible routes.
+ *
+ * Failures are returned as `{ error: { code, message, status, details } }` so the
+ * official SDKs recognise them and their built-in retry logic engages. Retryable
+ * failures carry a `Retry-After` header (and a matching `google.rpc.RetryInfo`
+ * detail) derived from the soonest account cooldown expiry.
+ */
+
+import { Response } from 'express';
+import { ErrorCategory } from '../services/error-classifier';
+import { getSoonestCooldownExpiry } from '../services/account-cooldown';
+
+const MAX_RETRY_AFTER_S = 60 * 60; // Auth/billing cooldowns never expire on their own — cap the hint
+
+const RPC_STATUS_BY_CODE: Record<number, string> = {
+    400: 'INVALID_ARGUMENT',
+    401: 'UNAUTHENTICATED',
+    403: 'PERMISSION_DENIED',
+    404: 'NOT_FOUND',
+    409: 'ABORTED',
+    429: 'RESOURCE_EXHAUSTED',
+    499: 'CANCELLED',
+    500: 'INTERNAL',
+    501: 'UNIMPLEMENTED',
+    503: 'UNAVAILABLE',
+    504: 'DEADLINE_EXCEEDED',
+};
+
+const RETRYABLE_CODES = new Set([429, 503, 504]);
+
+/**
+ * How an upstream failure category surfaces to the client once every account
+ * has failed. Auth and billing problems belong to the pool's credentials, not
+ * the caller's, so they are reported as a temporarily unavailable service.
+ */
+const CATEGORY_ERRORS: Record<ErrorCategory, { code: number; message: string }> = {
+    rate_limit: { code: 429, message: 'All Gemini accounts are rate limited. Retry after the indicated delay.' },
+    quota: { code: 429, message: 'All Gemini accounts have exhausted their quota. Retry after the indicated delay.' },
+    overloaded: { code: 503, message: 'The Gemini API is overloaded. Retry after the indicated delay.' },
+    timeout: { code: 504, message: 'The Gemini API did not respond in time.' },
+    auth: { code: 503, message: 'No Gemini account with valid credentials is available.' },
+    billing: { code: 503, message: 'No Gemini account with an active billing state is available.' },
+    model_not_found: { code: 404, message: 'The requested model was not found or is not available to any account.' },
+    format: { code: 400, message: 'The request was rejected by the Gemini API as malformed.' },
+    unknown: { code: 503, message: 'All Gemini accounts exhausted or failed.' },
+};
+
+function retryAfterSeconds(): number | null {
+    const soonest = getSoonestCooldownExpiry();
+    if (soonest === null) return null;
+    return Math.min(MAX_RETRY_AFTER_S, Math.max(1, Math.ceil((soonest - Date.now()) / 1000)));
+}
+
+/** Builds the `{ error: { code, message, status, details } }` body. */
+export function googleErrorBody(code: number, message: string, details: any[] = []) {
+    return { error: { code, message, status: RPC_STATUS_BY_CODE[code] || 'UNKNOWN', details } };
+}
+
+/**
+ * HTTP status and message for a pool-wide failure of the given category. The
+ * other protocol adapters (OpenAI, Anthropic, Ollama) wrap these in their own body.
+ */
+export function categoryError(category: ErrorCategory = 'unknown'): { code: number; message: string } {
+    return CATEGORY_ERRORS[category];
+}
+
+/**
+ * Sets `Retry-After` on a 429/503/504 response: the given delay, or else the
+ * soonest account cooldown expiry when any account is cooling down. Returns the
+ * delay sent, if any.
+ */
+export function setRetryAfter(res: Response, code: number, retryAfterS?: number): number | null {
+    if (!RETRYABLE_CODES.has(code)) return null;
+    const retryAfter = retryAfterS ?? retryAfterSeconds();
+    if (retryAfter !== null) res.setHeader('Retry-After', String(retryAfter));
+    return retryAfter;
+}
+
+/** Sends a Google-style error, with `Retry-After` (and `RetryInfo`) when retryable — see `setRetryAfter`. */
+export function sendGoogleError(res: Response, code: number, message: string, details: any[] = [], retryAfterS?: number): void {
+    const body = googleErrorBody(code, message, details);
+    const retryAfter = setRetryAfter(res, code, retryAfterS);
+    if (retryAfter !== null) {
+        body.error.details.push({ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: `${retryAfter}s` });
+    }
+    res.status(code).json(body);
+}
+
+/** Reports a pool-wide failure using the category of the last upstream error. */
+export function sendCategoryError(res: Response, category: ErrorCategory = 'unknown'): void {
+    const { code, message } = categoryError(category);
+    sendGoogleError(res, code, message, [
+        { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: category.toUpperCase(), domain: 'opengem' },
+    ]);
+}
+
+/** Standard 500 body; the exception message is only exposed outside production. */
+export function sendInternalError(res: Response, err: any): void {
+    sendGoogleError(res, 500, process.env.NODE_ENV !== 'production' && err?.message ? err.message : 'Internal Server Error');
+}
@@ -0,0 +1,61 @@
+/**
+ * Model discovery endpoints (`GET /v1beta/models`, `GET /v1beta/models/{model}`).
+ *
+ * Exposes the gateway's model catalogue as standard Gemini `Model` resources so
+ * SDK `models.list()` / `models.get()` calls work without hardcoded names.
+ */
+
+import { Request, Response } from 'express';
+import { getModelCatalog } from '../services/gemini';
+import { sendGoogleError } from './google-errors';
+
+const DEFAULT_INPUT_TOKEN_LIMIT = 1_048_576;
+const DEFAULT_OUTPUT_TOKEN_LIMIT = 65_536;
+
+// Known limits by model-name prefix; anything unlisted uses the defaults above
+const TOKEN_LIMITS: Array<{ prefix: string; input: number; output: number }> = [
+    { prefix: 'gemini-2.0-flash', input: 1_048_576, output: 8_192 },
+    { prefix: 'gemini-1.5-pro', input: 2_097_152, output: 8_192 },
+    { prefix: 'gemini-1.5-flash', input: 1_048_576, output: 8_192 },
+];
+
+const GENERATION_METHODS = ['generateContent', 'streamGenerateContent', 'countTokens'];
+
+function displayName(model: string): string {
+    return model
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+function toModelResource(model: string) {
+    const limits = TOKEN_LIMITS.find(l => model.startsWith(l.prefix));
+    return {
+        name: `models/${model}`,
+        baseModelId: model,
+        version: model.includes('preview') ? 'preview' : '001',
+        displayName: displayName(model),
+        description: `${displayName(model)} served through the OpenGem account pool.`,
+        inputTokenLimit: limits?.input ?? DEFAULT_INPUT_TOKEN_LIMIT,
+        outputTokenLimit: limits?.output ?? DEFAULT_OUTPUT_TOKEN_LIMIT,
+        supportedGenerationMethods: GENERATION_METHODS,
+        temperature: 1,
+        maxTemperature: 2,
+        topP: 0.95,
+        topK: 64,
+        thinking: model.startsWith('gemini-2.5') || model.startsWith('gemini-3'),
+    };
+}
+
+export function handleListModels(req: Request, res: Response): void {
+    res.json({ models: getModelCatalog().map(toModelResource) });
+}
+
+export function handleGetModel(req: Request, res: Response): void {
+    const model = String(req.params.model);
+    if (!getModelCatalog().includes(model)) {
+        sendGoogleError(res, 404, `Model ${model} is not available on this gateway.`);
+        return;
+    }
+    res.json(toModelResource(model));
+}
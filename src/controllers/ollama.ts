@@ -0,0 +1,339 @@
+/**
+ * Ollama API compatibility layer (`POST /api/chat`, `POST /api/generate`, `GET /api/tags`).
+ *
+ * Lets tools that only speak the Ollama protocol (editors, Open WebUI, note apps)
+ * use the account pool by changing the base URL. Streaming — Ollama's default —
+ * is newline-delimited JSON built from the Gemini chunks `pipeStream` parses.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+    resolveModel,
+    routingTraits,
+    reportServedModel,
+    createRotationContext,
+    tryGenerateContentWithAccounts,
+    streamWithAccounts,
+    StreamFormatter,
+} from './chat';
+import { categoryError, setRetryAfter } from './google-errors';
+import { toGeminiSchema } from '../services/json-schema';
+import { ErrorCategory } from '../services/error-classifier';
+import { SKIP_THOUGHT_SIGNATURE, getModelCatalog } from '../services/gemini';
+
+const NDJSON_HEADERS = {
+    'Content-Type': 'application/x-ndjson',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+};
+
+type Endpoint = 'chat' | 'generate';
+
+// ─── Request translation ──────────────────────────────────
+
+/** Ollama sends bare base64 images; sniff the MIME type from the magic bytes. */
+function imageToPart(data: string): any {
+    let mimeType = 'image/png';
+    if (data.startsWith('/9j/')) mimeType = 'image/jpeg';
+    else if (data.startsWith('R0lGOD')) mimeType = 'image/gif';
+    else if (data.startsWith('UklGR')) mimeType = 'image/webp';
+    return { inlineData: { mimeType, data } };
+}
+
+function messageParts(msg: any): any[] {
+    const parts: any[] = [];
+    if (msg.content) parts.push({ text: String(msg.content) });
+    for (const image of msg.images ?? []) parts.push(imageToPart(image));
+    return parts;
+}
+
+function translateMessages(messages: any[]): { contents: any[]; systemInstruction?: any } {
+    const systemTexts: string[] = [];
+    const contents: any[] = [];
+    // Ollama tool results carry no call ID; match them to the preceding calls in order
+    let pendingToolNames: string[] = [];
+
+    for (const msg of messages) {
+        switch (msg.role) {
+            case 'system':
+                if (msg.content) systemTexts.push(String(msg.content));
+                break;
+            case 'assistant': {
+                const parts: any[] = [];
+                if (msg.thinking) parts.push({ text: msg.thinking, thought: true });
+                parts.push(...messageParts(msg));
+                pendingToolNames = [];
+                for (const call of msg.tool_calls ?? []) {
+                    pendingToolNames.push(call.function.name);
+                    parts.push({
+                        functionCall: { name: call.function.name, args: call.function.arguments ?? {} },
+                        thoughtSignature: SKIP_THOUGHT_SIGNATURE,
+                    });
+                }
+                if (parts.length) contents.push({ role: 'model', parts });
+                break;
+            }
+            case 'tool': {
+                const name = msg.tool_name || pendingToolNames.shift() || 'tool';
+                const part = { functionResponse: { name, response: { content: String(msg.content ?? '') } } };
+                const prev = contents[contents.length - 1];
+                if (prev?.role === 'user' && prev.parts.every((p: any) => p.functionResponse)) prev.parts.push(part);
+                else contents.push({ role: 'user', parts: [part] });
+                break;
+            }
+            default: {
+                const parts = messageParts(msg);
+                if (parts.length) contents.push({ role: 'user', parts });
+            }
+        }
+    }
+
+    const systemText = systemTexts.join('\n\n');
+    return {
+        contents,
+        ...(systemText && { systemInstruction: { parts: [{ text: systemText }] } }),
+    };
+}
+
+function translateTools(tools: any[] | undefined): any[] | undefined {
+    if (!Array.isArray(tools)) return undefined;
+    const declarations = tools
+        .filter(t => t.function?.name)
+        .map(t => ({
+            name: t.function.name,
+            ...(t.function.description && { description: t.function.description }),
+            ...(t.function.parameters && { parameters: toGeminiSchema(t.function.parameters) }),
+        }));
+    return declarations.length ? [{ functionDeclarations: declarations }] : undefined;
+}
+
+function translateGenerationConfig(body: any): any | undefined {
+    const config: any = {};
+    const options = body.options ?? {};
+    if (options.temperature !== undefined) config.temperature = options.temperature;
+    if (options.top_p !== undefined) config.topP = options.top_p;
+    if (options.top_k !== undefined) config.topK = options.top_k;
+    // -1 / -2 mean "unlimited" / "fill context" in Ollama
+    if (options.num_predict !== undefined && options.num_predict > 0) config.maxOutputTokens = options.num_predict;
+    if (options.stop !== undefined) config.stopSequences = Array.isArray(options.stop) ? options.stop : [options.stop];
+    if (options.seed !== undefined) config.seed = options.seed;
+    if (options.presence_penalty !== undefined) config.presencePenalty = options.presence_penalty;
+    if (options.frequency_penalty !== undefined) config.frequencyPenalty = options.frequency_penalty;
+
+    if (body.format === 'json') {
+        config.responseMimeType = 'application/json';
+    } else if (body.format && typeof body.format === 'object') {
+        config.responseMimeType = 'application/json';
+        config.responseSchema = toGeminiSchema(body.format);
+    }
+
+    if (body.think === true) config.thinkingConfig = { includeThoughts: true };
+
+    return Object.keys(config).length ? config : undefined;
+}
+
+/**
+ * Ollama clients append tags (`:latest`) to names returned by `/api/tags`. Aliases
+ * and routing rules are applied once, in `generate`, where the request's traits are known.
+ */
+function parseModel(name: any): string {
+    return String(name || '').replace(/^models\//, '').replace(/:[^:/]+$/, '');
+}
+
+// ─── Response translation ─────────────────────────────────
+
+function splitParts(parts: any[] | undefined): { text: string; thinking: string; toolCalls: any[] } {
+    let text = '';
+    let thinking = '';
+    const toolCalls: any[] = [];
+    for (const p of parts ?? []) {
+        if (p.thought) thinking += p.text || '';
+        else if (p.text) text += p.text;
+        else if (p.functionCall) toolCalls.push({ function: { name: p.functionCall.name, arguments: p.functionCall.args ?? {} } });
+    }
+    return { text, thinking, toolCalls };
+}
+
+function mapDoneReason(reason: string | undefined): string {
+    return reason === 'MAX_TOKENS' ? 'length' : 'stop';
+}
+
+/** Builds one Ollama response object; chat nests output in `message`, generate uses `response`. */
+function toOllamaBody(endpoint: Endpoint, model: string, parts: { text: string; thinking: string; toolCalls: any[] }) {
+    const base = { model, created_at: new Date().toISOString() };
+    if (endpoint === 'chat') {
+        return {
+            ...base,
+            message: {
+                role: 'assistant',
+                content: parts.text,
+                ...(parts.thinking && { thinking: parts.thinking }),
+                ...(parts.toolCalls.length > 0 && { tool_calls: parts.toolCalls }),
+            },
+        };
+    }
+    return { ...base, response: parts.text, ...(parts.thinking && { thinking: parts.thinking }) };
+}
+
+/** Final-object statistics; durations are nanoseconds like Ollama's. */
+function doneStats(startedAt: number, finishReason: string | undefined, usage: any) {
+    return {
+        done: true,
+        done_reason: mapDoneReason(finishReason),
+        total_duration: (Date.now() - startedAt) * 1_000_000,
+        load_duration: 0,
+        prompt_eval_count: usage?.promptTokenCount || 0,
+        eval_count: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    };
+}
+
+/**
+ * Emits one JSON object per line for every upstream chunk, then a final
+ * `done: true` object carrying the finish reason and token counts.
+ */
+function createNdjsonFormatter(endpoint: Endpoint, model: string, startedAt: number): StreamFormatter {
+    let currentModel = model;
+    let finishReason: string | undefined;
+    let usage: any;
+
+    const send = (res: Response, payload: any) => {
+        res.write(JSON.stringify(payload) + '\n');
+    };
+
+    return {
+        headers: NDJSON_HEADERS,
+        writeChunk(res, chunk) {
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+            const candidate = chunk.candidates?.[0];
+            if (candidate?.finishReason) finishReason = candidate.finishReason;
+
+            const parts = splitParts(candidate?.content?.parts);
+            if (parts.text || parts.thinking || parts.toolCalls.length) {
+                send(res, { ...toOllamaBody(endpoint, currentModel, parts), done: false });
+            }
+        },
+        writeModelChange(_res, newModel) {
+            currentModel = newModel;
+        },
+        end(res) {
+            const empty = { text: '', thinking: '', toolCalls: [] };
+            send(res, { ...toOllamaBody(endpoint, currentModel, empty), ...doneStats(startedAt, finishReason, usage) });
+            res.end();
+        },
+        fail(res, message, category) {
+            if (!res.headersSent) {
+                sendCategoryFailure(res, category);
+            } else if (!res.writableEnded) {
+                send(res, { error: message });
+                res.end();
+            }
+        },
+    };
+}
+
+// ─── Shared generation path ───────────────────────────────
+
+/** Ollama's `{ error }` body for a pool-wide failure, with the HTTP status of its category. */
+function sendCategoryFailure(res: Response, category?: ErrorCategory): void {
+    const { code, message } = categoryError(category);
+    setRetryAfter(res, code);
+    res.status(code).json({ error: message });
+}
+
+async function generate(
+    endpoint: Endpoint, req: Request, res: Response,
+    requestedModel: string, contents: any[], systemInstruction: any, tools?: any[]
+): Promise<void> {
+    const startedAt = Date.now();
+    const model = resolveModel(requestedModel, routingTraits(res, contents, systemInstruction, tools));
+    const generationConfig = translateGenerationConfig(req.body);
+
+    // Ollama streams unless the client explicitly sends `stream: false`
+    if (req.body.stream !== false) {
+        const formatter = createNdjsonFormatter(endpoint, model, startedAt);
+        await streamWithAccounts(model, contents, generationConfig, systemInstruction, tools, undefined, res, false, formatter, createRotationContext(req, res));
+        return;
+    }
+
+    const ctx = createRotationContext(req, res);
+    const result = await tryGenerateContentWithAccounts(model, contents, generationConfig, systemInstruction, tools, undefined, ctx);
+    if (!result) {
+        sendCategoryFailure(res, ctx.failureCategory);
+        return;
+    }
+    const candidate = result.candidates?.[0];
+    reportServedModel(res, ctx);
+    res.json({
+        ...toOllamaBody(endpoint, ctx.servedBy?.model ?? model, splitParts(candidate?.content?.parts)),
+        ...doneStats(startedAt, candidate?.finishReason, result.usageMetadata),
+    });
+}
+
+// ─── Public entry points ──────────────────────────────────
+
+export async function handleOllamaChat(req: Request, res: Response): Promise<void> {
+    try {
+        const { messages, tools } = req.body;
+        const model = parseModel(req.body.model);
+
+        // An empty message list is Ollama's "load the model" call
+        if (!Array.isArray(messages) || messages.length === 0) {
+            res.json({ model, created_at: new Date().toISOString(), message: { role: 'assistant', content: '' }, done: true, done_reason: 'load' });
+            return;
+        }
+
+        const { contents, systemInstruction } = translateMessages(messages);
+        await generate('chat', req, res, model, contents, systemInstruction, translateTools(tools));
+    } catch (e: any) {
+        console.error('Ollama Chat Error:', e);
+        if (!res.headersSent) {
+            res.status(500).json({ error: process.env.NODE_ENV !== 'production' ? e.message : 'Internal Server Error' });
+        }
+    }
+}
+
+export async function handleOllamaGenerate(req: Request, res: Response): Promise<void> {
+    try {
+        const { prompt, system, images } = req.body;
+        const model = parseModel(req.body.model);
+
+        if (!prompt && !images?.length) {
+            res.json({ model, created_at: new Date().toISOString(), response: '', done: true, done_reason: 'load' });
+            return;
+        }
+
+        const contents = [{ role: 'user', parts: messageParts({ content: prompt, images }) }];
+        const systemInstruction = system ? { parts: [{ text: String(system) }] } : undefined;
+        await generate('generate', req, res, model, contents, systemInstruction);
+    } catch (e: any) {
+        console.error('Ollama Generate Error:', e);
+        if (!res.headersSent) {
+            res.status(500).json({ error: process.env.NODE_ENV !== 'production' ? e.message : 'Internal Server Error' });
+        }
+    }
+}
+
+/** Lists generative models in Ollama's `/api/tags` shape (embedding models are omitted). */
+export function handleOllamaTags(req: Request, res: Response): void {
+    const modifiedAt = new Date().toISOString();
+    const models = getModelCatalog()
+        .filter(name => !name.includes('embedding'))
+        .map(name => ({
+            name: `${name}:latest`,
+            model: `${name}:latest`,
+            modified_at: modifiedAt,
+            size: 0,
+            digest: crypto.createHash('sha256').update(name).digest('hex'),
+            details: {
+                parent_model: '',
+                format: 'gemini',
+                family: 'gemini',
+                families: ['gemini'],
+                parameter_size: '',
+                quantization_level: '',
+            },
+        }));
+    res.json({ models });
+}
@@ -0,0 +1,374 @@
+/**
+ * OpenAI Chat Completions compatibility layer (`POST /v1/chat/completions`).
+ *
+ * Translates OpenAI `messages` / `tools` / `tool_choice` into the Gemini payload
+ * accepted by the rotation engine in chat.ts, and maps responses — including
+ * streamed `chat.completion.chunk` events — back to the OpenAI shape.
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+    resolveModel,
+    routingTraits,
+    reportServedModel,
+    createRotationContext,
+    tryGenerateContentWithAccounts,
+    streamWithAccounts,
+    SSE_HEADERS,
+    StreamFormatter,
+} from './chat';
+import { categoryError, setRetryAfter } from './google-errors';
+import { toGeminiSchema } from '../services/json-schema';
+import { ErrorCategory } from '../services/error-classifier';
+import { SKIP_THOUGHT_SIGNATURE } from '../services/gemini';
+
+// ─── Request translation ──────────────────────────────────
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+function imageUrlOf(part: any): string {
+    return String(part.image_url?.url ?? part.image_url ?? '');
+}
+
+function imageUrlToPart(url: string): any {
+    const match = DATA_URL_PATTERN.exec(url);
+    return match ? { inlineData: { mimeType: match[1], data: match[2] } } : null;
+}
+
+/**
+ * Gemini's `fileData` only takes URIs of uploaded files and never fetches
+ * arbitrary URLs, so images must arrive inline as base64 `data:` URLs.
+ */
+function findUnsupportedImage(messages: any[]): string | undefined {
+    for (const msg of messages) {
+        if (!Array.isArray(msg?.content)) continue;
+        const image = msg.content.find((part: any) => part?.type === 'image_url' && !DATA_URL_PATTERN.test(imageUrlOf(part)));
+        if (image) return imageUrlOf(image);
+    }
+    return undefined;
+}
+
+function contentToParts(content: any): any[] {
+    if (content === null || content === undefined) return [];
+    if (typeof content === 'string') return content ? [{ text: content }] : [];
+
+    return (content as any[]).map(part => {
+        if (part.type === 'text') return { text: part.text };
+        if (part.type === 'image_url') return imageUrlToPart(imageUrlOf(part));
+        if (part.type === 'input_audio') {
+            return { inlineData: { mimeType: `audio/${part.input_audio.format}`, data: part.input_audio.data } };
+        }
+        return null;
+    }).filter(Boolean);
+}
+
+function contentToText(content: any): string {
+    if (typeof content === 'string') return content;
+    if (!Array.isArray(content)) return '';
+    return content.map((p: any) => p.text || '').filter(Boolean).join('\n');
+}
+
+function parseArguments(args: any): any {
+    if (typeof args !== 'string') return args ?? {};
+    try { return JSON.parse(args || '{}'); } catch { return { arguments: args }; }
+}
+
+function translateMessages(messages: any[]): { contents: any[]; systemInstruction?: any } {
+    const systemTexts: string[] = [];
+    const contents: any[] = [];
+    const toolNames = new Map<string, string>();
+
+    const pushFunctionResponse = (name: string, content: any) => {
+        const part = { functionResponse: { name, response: { content: contentToText(content) } } };
+        // Gemini expects all responses to one model turn inside a single user turn
+        const prev = contents[contents.length - 1];
+        if (prev?.role === 'user' && prev.parts.every((p: any) => p.functionResponse)) prev.parts.push(part);
+        else contents.push({ role: 'user', parts: [part] });
+    };
+
+    for (const msg of messages) {
+        switch (msg.role) {
+            case 'system':
+            case 'developer':
+                systemTexts.push(contentToText(msg.content));
+                break;
+            case 'assistant': {
+                const parts = contentToParts(msg.content);
+                const calls = msg.tool_calls ?? (msg.function_call ? [{ function: msg.function_call }] : []);
+                for (const call of calls) {
+                    if (call.id) toolNames.set(call.id, call.function.name);
+                    parts.push({
+                        functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) },
+                        thoughtSignature: SKIP_THOUGHT_SIGNATURE,
+                    });
+                }
+                if (parts.length) contents.push({ role: 'model', parts });
+                break;
+            }
+            case 'tool':
+                pushFunctionResponse(toolNames.get(msg.tool_call_id) || msg.name || 'tool', msg.content);
+                break;
+            case 'function':
+                pushFunctionResponse(msg.name || 'function', msg.content);
+                break;
+            default: {
+                // A turn with `content: null` carries nothing Gemini can take; an empty turn is rejected upstream
+                const parts = contentToParts(msg.content);
+                if (parts.length) contents.push({ role: 'user', parts });
+            }
+        }
+    }
+
+    const systemText = systemTexts.filter(Boolean).join('\n\n');
+    return {
+        contents,
+        ...(systemText && { systemInstruction: { parts: [{ text: systemText }] } }),
+    };
+}
+
+function translateTools(tools: any[] | undefined): any[] | undefined {
+    if (!Array.isArray(tools)) return undefined;
+    const declarations = tools
+        .filter(t => t.type === 'function' && t.function?.name)
+        .map(t => ({
+            name: t.function.name,
+            ...(t.function.description && { description: t.function.description }),
+            ...(t.function.parameters && { parameters: toGeminiSchema(t.function.parameters) }),
+        }));
+    return declarations.length ? [{ functionDeclarations: declarations }] : undefined;
+}
+
+function translateToolChoice(toolChoice: any): any | undefined {
+    if (!toolChoice) return undefined;
+    if (toolChoice === 'none') return { functionCallingConfig: { mode: 'NONE' } };
+    if (toolChoice === 'auto') return { functionCallingConfig: { mode: 'AUTO' } };
+    if (toolChoice === 'required') return { functionCallingConfig: { mode: 'ANY' } };
+    if (toolChoice.function?.name) {
+        return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] } };
+    }
+    return undefined;
+}
+
+function translateGenerationConfig(body: any): any | undefined {
+    const config: any = {};
+    if (body.temperature !== undefined) config.temperature = body.temperature;
+    if (body.top_p !== undefined) config.topP = body.top_p;
+    const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+    if (maxTokens !== undefined) config.maxOutputTokens = maxTokens;
+    if (body.stop !== undefined) config.stopSequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+    if (body.n !== undefined) config.candidateCount = body.n;
+    if (body.presence_penalty !== undefined) config.presencePenalty = body.presence_penalty;
+    if (body.frequency_penalty !== undefined) config.frequencyPenalty = body.frequency_penalty;
+    if (body.seed !== undefined) config.seed = body.seed;
+
+    const format = body.response_format;
+    if (format?.type === 'json_object') {
+        config.responseMimeType = 'application/json';
+    } else if (format?.type === 'json_schema') {
+        config.responseMimeType = 'application/json';
+        if (format.json_schema?.schema) config.responseSchema = toGeminiSchema(format.json_schema.schema);
+    }
+
+    return Object.keys(config).length ? config : undefined;
+}
+
+// ─── Response translation ─────────────────────────────────
+
+function mapFinishReason(reason: string | undefined, hasToolCalls: boolean): string | null {
+    if (hasToolCalls) return 'tool_calls';
+    switch (reason) {
+        case undefined: return null;
+        case 'STOP': return 'stop';
+        case 'MAX_TOKENS': return 'length';
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+            return 'content_filter';
+        default: return 'stop';
+    }
+}
+
+function mapUsage(usage: any) {
+    const prompt = usage?.promptTokenCount || 0;
+    const completion = (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+    return {
+        prompt_tokens: prompt,
+        completion_tokens: completion,
+        total_tokens: usage?.totalTokenCount || prompt + completion,
+    };
+}
+
+function toToolCall(functionCall: any) {
+    return {
+        id: `call_${crypto.randomBytes(12).toString('hex')}`,
+        type: 'function',
+        function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args ?? {}) },
+    };
+}
+
+/** Split candidate parts into visible text and tool calls (thought parts are dropped). */
+function splitParts(parts: any[] | undefined): { text: string; toolCalls: any[] } {
+    let text = '';
+    const toolCalls: any[] = [];
+    for (const p of parts ?? []) {
+        if (p.thought) continue;
+        if (p.text) text += p.text;
+        else if (p.functionCall) toolCalls.push(toToolCall(p.functionCall));
+    }
+    return { text, toolCalls };
+}
+
+function toChatCompletion(response: any, model: string) {
+    return {
+        id: `chatcmpl-${crypto.randomBytes(12).toString('hex')}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: (response.candidates ?? []).map((candidate: any, i: number) => {
+            const { text, toolCalls } = splitParts(candidate.content?.parts);
+            return {
+                index: candidate.index ?? i,
+                message: {
+                    role: 'assistant',
+                    content: text || null,
+                    ...(toolCalls.length && { tool_calls: toolCalls }),
+                },
+                finish_reason: mapFinishReason(candidate.finishReason, toolCalls.length > 0) ?? 'stop',
+            };
+        }),
+        usage: mapUsage(response.usageMetadata),
+    };
+}
+
+function openAIError(message: string, type: string, code?: string) {
+    return { error: { message, type, param: null, code: code ?? null } };
+}
+
+const ERROR_TYPE_BY_STATUS: Record<number, string> = {
+    400: 'invalid_request_error',
+    404: 'invalid_request_error',
+    429: 'rate_limit_error',
+};
+
+/** OpenAI error body for a pool-wide failure, with the HTTP status of its category. */
+function categoryFailure(category?: ErrorCategory, message?: string) {
+    const { code, message: defaultMessage } = categoryError(category);
+    const errorCode = !category || category === 'unknown' ? 'accounts_exhausted' : category;
+    return { code, body: openAIError(message ?? defaultMessage, ERROR_TYPE_BY_STATUS[code] ?? 'server_error', errorCode) };
+}
+
+function sendCategoryFailure(res: Response, category?: ErrorCategory): void {
+    const { code, body } = categoryFailure(category);
+    setRetryAfter(res, code);
+    res.status(code).json(body);
+}
+
+/**
+ * Emits `chat.completion.chunk` SSE events. The finish chunk is written once the
+ * upstream stream ends so it appears exactly once regardless of how Gemini splits chunks.
+ */
+function createChunkFormatter(model: string, includeUsage: boolean): StreamFormatter {
+    const id = `chatcmpl-${crypto.randomBytes(12).toString('hex')}`;
+    const created = Math.floor(Date.now() / 1000);
+    const choices = new Map<number, { toolIndex: number; finishReason?: string }>();
+    let currentModel = model;
+    let usage: any;
+
+    const send = (res: Response, payload: any) => {
+        res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: currentModel, ...payload })}\n\n`);
+    };
+
+    return {
+        headers: SSE_HEADERS,
+        writeChunk(res, chunk) {
+            if (chunk.usageMetadata) usage = chunk.usageMetadata;
+
+            (chunk.candidates ?? []).forEach((candidate: any, i: number) => {
+                const index = candidate.index ?? i;
+                let state = choices.get(index);
+                const delta: any = {};
+                if (!state) {
+                    state = { toolIndex: 0 };
+                    choices.set(index, state);
+                    delta.role = 'assistant';
+                }
+
+                const { text, toolCalls } = splitParts(candidate.content?.parts);
+                if (text) delta.content = text;
+                if (toolCalls.length) {
+                    delta.tool_calls = toolCalls.map(call => ({ index: state!.toolIndex++, ...call }));
+                }
+                if (candidate.finishReason) state.finishReason = candidate.finishReason;
+
+                if (Object.keys(delta).length) send(res, { choices: [{ index, delta, finish_reason: null }] });
+            });
+        },
+        writeModelChange(_res, newModel) {
+            currentModel = newModel;
+        },
+        end(res) {
+            for (const [index, state] of choices) {
+                send(res, { choices: [{ index, delta: {}, finish_reason: mapFinishReason(state.finishReason, state.toolIndex > 0) ?? 'stop' }] });
+            }
+            if (includeUsage) send(res, { choices: [], usage: mapUsage(usage) });
+            res.write('data: [DONE]\n\n');
+            res.end();
+        },
+        fail(res, message, category) {
+            if (!res.headersSent) {
+                sendCategoryFailure(res, category);
+            } else if (!res.writableEnded) {
+                res.write(`data: ${JSON.stringify(categoryFailure(category, message).body)}\n\n`);
+                res.end();
+            }
+        },
+    };
+}
+
+// ─── Public entry point ───────────────────────────────────
+
+export async function handleChatCompletions(req: Request, res: Response): Promise<void> {
+    try {
+        const { messages, model: reqModel, stream, stream_options, tools, tool_choice } = req.body;
+
+        if (!Array.isArray(messages) || messages.length === 0) {
+            res.status(400).json(openAIError('`messages` must be a non-empty array.', 'invalid_request_error'));
+            return;
+        }
+
+        const remoteImage = findUnsupportedImage(messages);
+        if (remoteImage !== undefined) {
+            res.status(400).json(openAIError(`Image URLs must be base64 \`data:\` URLs; remote images are not fetched (got ${remoteImage.slice(0, 100)}).`, 'invalid_request_error', 'unsupported_image_url'));
+            return;
+        }
+
+        const { contents, systemInstruction } = translateMessages(messages);
+        const generationConfig = translateGenerationConfig(req.body);
+        const geminiTools = translateTools(tools);
+        const model = resolveModel(String(reqModel || '').replace(/^models\//, ''), routingTraits(res, contents, systemInstruction, geminiTools));
+        const toolConfig = translateToolChoice(tool_choice);
+
+        if (stream) {
+            const formatter = createChunkFormatter(model, !!stream_options?.include_usage);
+            await streamWithAccounts(model, contents, generationConfig, systemInstruction, geminiTools, toolConfig, res, false, formatter, createRotationContext(req, res));
+            return;
+        }
+
+        const ctx = createRotationContext(req, res);
+        const result = await tryGenerateContentWithAccounts(model, contents, generationConfig, systemInstruction, geminiTools, toolConfig, ctx);
+        if (!result) {
+            sendCategoryFailure(res, ctx.failureCategory);
+            return;
+        }
+        reportServedModel(res, ctx);
+        res.json(toChatCompletion(result, ctx.servedBy?.model ?? model));
+    } catch (e: any) {
+        console.error('Chat Completions Error:', e);
+        if (!res.headersSent) {
+            res.status(500).json(openAIError(process.env.NODE_ENV !== 'production' ? e.message : 'Internal Server Error', 'server_error'));
+        }
+    }
+}
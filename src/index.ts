@@ -5,12 +5,13 @@ import path from 'path';
 import helmet from 'helmet';
 import cookieParser from 'cookie-parser';
 import rateLimit from 'express-rate-limit';
+import type { RateLimitInfo } from 'express-rate-limit';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { getDatabase, invalidateDbCache } from './services/database';
 import { requireAdmin } from './middleware/auth';
-import { isConfigured, getConfig, saveConfig, generateJwtSecret, generateApiKey, verifyUsername, switchDatabaseBackend, updateModels } from './services/config';
+import { isConfigured, getConfig, saveConfig, generateJwtSecret, generateApiKey, verifyUsername, switchDatabaseBackend, updateModels, updateCacheConfig, updateStructuredOutputConfig, updateRoutingLimits, updateHedgingConfig, updateAccountSelectionConfig, updateAffinityConfig, updateModelAvailabilityConfig } from './services/config';
 import {
     OAUTH_CONFIG,
     generatePkce,
@@ -24,9 +25,25 @@ import {
     FALLBACK_MODEL,
     FALLBACK_MODEL_V2,
     getFirstFallbackModel,
-    getSecondFallbackModel
+    getSecondFallbackModel,
+    getCustomModels,
+    getFallbackChains,
+    getModelAliases,
+    getRoutingRules
 } from './services/gemini';
-import { warmAccountCache, invalidateAccountCache } from './services/account-manager';
+import { warmAccountCache, invalidateAccountCache, getReadyAccounts } from './services/account-manager';
+import { getAccountSelectionConfig, getSelectionDiagnostics, isSelectionStrategy, SELECTION_STRATEGIES } from './services/account-selection';
+import { getCacheConfig, getMemoryCacheSize, clearResponseCache } from './services/response-cache';
+import { getStructuredOutputConfig } from './services/structured-output';
+import { isValidAliasName, parseRoutingRule } from './services/model-routing';
+import { getHedgingConfig, getHedgingStats, parseHedgingConfig } from './services/hedging';
+import { getRoutingLimits, parseRoutingLimits, parseRoutingHeaders, isRoutingOverride, ROUTING_OVERRIDE_HEADERS } from './services/routing-overrides';
+import { getAffinityConfig, parseAffinityConfig, getAffinityDiagnostics, clearAffinity } from './services/session-affinity';
+import { getCooldownDiagnostics, flushCooldownWrites } from './services/account-cooldown';
+import { getModelAvailabilityConfig, parseModelAvailabilityConfig, getAvailabilityMatrix } from './services/model-availability';
+import { DEFAULT_POOL, isValidPoolName, parsePoolList, poolsOfAccount, poolsOfKey } from './services/account-pools';
+import type { ModelConfig } from './services/config';
+import type { RoutingOverride } from './services/database';
 
 dotenv.config();
 
@@ -218,24 +235,46 @@ app.get('/api/admin/me', requireAdmin, (req, res) => {
 // Simple in-memory store for PKCE verifiers keyed by state parameter
 const authStates = new Map<string, string>();
 
+// Gemini-compatible routes (v1beta and the Vertex AI-style paths) speak Google-style errors
+const GOOGLE_ROUTE_PATTERN = /^\/(v1beta1?|v1\/projects|v1\/publishers)\//;
+
+/** Rejects an API request in the error format of the route it was sent to. */
+function rejectApiRequest(req: express.Request, res: express.Response, code: number, message: string, retryAfterS?: number) {
+    if (GOOGLE_ROUTE_PATTERN.test(req.path)) return sendGoogleError(res, code, message, [], retryAfterS);
+    if (retryAfterS !== undefined) res.setHeader('Retry-After', String(retryAfterS));
+    res.status(code).json({ error: message });
+}
+
 // API Key middleware — validates against the active database backend
 const requireApiKey = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
     const authHeader = req.header('authorization');
-    const apiKey = authHeader?.replace('Bearer ', '') || (req.query.key as string) || req.header('x-goog-api-key');
+    const apiKey = authHeader?.replace('Bearer ', '') || (req.query.key as string) || req.header('x-goog-api-key') || req.header('x-api-key');
 
     if (!apiKey) {
-        return res.status(401).json({ error: 'Unauthorized. API Key required.' });
+        return rejectApiRequest(req, res, 401, 'Unauthorized. API Key required.');
     }
 
     try {
-        const isValid = await getDatabase().validateApiKey(apiKey);
-        if (!isValid) {
-            return res.status(401).json({ error: 'Unauthorized. Invalid API Key.' });
+        const keyRecord = await getDatabase().validateApiKey(apiKey);
+        if (!keyRecord) {
+            return rejectApiRequest(req, res, 401, 'Unauthorized. Invalid API Key.');
+        }
+        res.locals.apiKey = apiKey; // Lets handlers scope per-key resources (e.g. batch jobs)
+        res.locals.apiKeyRecord = keyRecord; // Per-key settings (e.g. response cache)
+
+        const routing = parseRoutingHeaders(req.headers);
+        if ('error' in routing) {
+            return rejectApiRequest(req, res, 400, routing.error);
         }
+        const denied = routing.used.filter(o => !keyRecord.routingOverrides?.includes(o));
+        if (denied.length) {
+            return rejectApiRequest(req, res, 403, `This API key may not set ${denied.map(o => ROUTING_OVERRIDE_HEADERS[o]).join(', ')}.`);
+        }
+        res.locals.routingOptions = routing.options;
         next();
     } catch (err) {
         console.error('API Key validation error:', err);
-        return res.status(500).json({ error: 'Internal Server Error.' });
+        return rejectApiRequest(req, res, 500, 'Internal Server Error.');
     }
 };
 
@@ -318,12 +357,54 @@ app.get('/api/accounts', requireAdmin, async (req, res) => {
     res.json(accounts);
 });
 
+// Which models each account can serve, as learned from upstream answers and limited by the access rules
+app.get('/api/accounts/availability', requireAdmin, async (req, res) => {
+    try {
+        res.json(getAvailabilityMatrix(await getDatabase().getAllAccounts()));
+    } catch (err: any) {
+        console.error('Model availability error:', err);
+        res.status(500).json({ error: 'Failed to get model availability' });
+    }
+});
+
 app.put('/api/accounts/:id/reactivate', requireAdmin, async (req, res) => {
     await getDatabase().reactivateAccount(String(req.params.id));
     invalidateAccountCache(); // Sync in-memory account list
     res.json({ success: true });
 });
 
+app.put('/api/accounts/:id/weight', requireAdmin, async (req, res) => {
+    try {
+        const { weight } = req.body;
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+            return res.status(400).json({ error: 'weight must be a number between 0 and 100.' });
+        }
+        await getDatabase().updateAccount(String(req.params.id), { weight });
+        invalidateAccountCache(); // Sync in-memory account list
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Update account weight error:', err);
+        res.status(500).json({ error: 'Failed to update account weight' });
+    }
+});
+
+app.put('/api/accounts/:id/pools', requireAdmin, async (req, res) => {
+    try {
+        const db = getDatabase();
+        const known = (await db.getAccountPools()).map(p => p.name);
+        const pools = parsePoolList(req.body.pools, known);
+        if ('error' in pools) {
+            return res.status(400).json({ error: pools.error });
+        }
+        await db.updateAccount(String(req.params.id), { pools });
+        invalidateAccountCache(); // Sync in-memory account list
+        res.json({ success: true, pools });
+    } catch (err: any) {
+        console.error('Update account pools error:', err);
+        res.status(500).json({ error: 'Failed to update account pools' });
+    }
+});
+
 app.delete('/api/accounts/:id', requireAdmin, async (req, res) => {
     await getDatabase().deleteAccount(String(req.params.id));
     invalidateAccountCache(); // Sync in-memory account list
@@ -357,6 +438,40 @@ app.post('/api/keys', requireAdmin, async (req, res) => {
     }
 });
 
+app.patch('/api/keys/:id', requireAdmin, async (req, res) => {
+    try {
+        const { name, cacheEnabled, routingOverrides } = req.body;
+        const db = getDatabase();
+        if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+            return res.status(400).json({ error: 'Key name must be a non-empty string.' });
+        }
+        if (cacheEnabled !== undefined && cacheEnabled !== null && typeof cacheEnabled !== 'boolean') {
+            return res.status(400).json({ error: 'cacheEnabled must be true, false, or null (follow the global setting).' });
+        }
+        if (routingOverrides !== undefined && (!Array.isArray(routingOverrides) || !routingOverrides.every(isRoutingOverride))) {
+            return res.status(400).json({ error: `routingOverrides must be an array of: ${Object.keys(ROUTING_OVERRIDE_HEADERS).join(', ')}.` });
+        }
+        let pools: string[] | undefined;
+        if (req.body.pools !== undefined) {
+            const parsed = parsePoolList(req.body.pools, (await db.getAccountPools()).map(p => p.name));
+            if ('error' in parsed) {
+                return res.status(400).json({ error: parsed.error });
+            }
+            pools = parsed;
+        }
+        await db.updateApiKey(String(req.params.id), {
+            ...(name !== undefined && { name: name.trim() }),
+            ...(cacheEnabled !== undefined && { cacheEnabled }),
+            ...(routingOverrides !== undefined && { routingOverrides: [...new Set<RoutingOverride>(routingOverrides)] }),
+            ...(pools && { pools }),
+        });
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Update key error:', err);
+        res.status(500).json({ error: 'Failed to update API key' });
+    }
+});
+
 app.delete('/api/keys/:id', requireAdmin, async (req, res) => {
     try {
         await getDatabase().deleteApiKey(String(req.params.id));
@@ -367,6 +482,61 @@ app.delete('/api/keys/:id', requireAdmin, async (req, res) => {
     }
 });
 
+// --- ACCOUNT POOL ROUTES ---
+
+app.get('/api/admin/pools', requireAdmin, async (req, res) => {
+    try {
+        const db = getDatabase();
+        const [pools, accounts, keys] = await Promise.all([db.getAccountPools(), db.getAllAccounts(), db.getAllApiKeys()]);
+        const members = (name: string) => ({
+            accounts: accounts.filter(a => poolsOfAccount(a).includes(name)).map(a => a.email),
+            apiKeys: keys.filter(k => poolsOfKey(k).includes(name)).map(k => k.name),
+        });
+        res.json([
+            { name: DEFAULT_POOL, description: 'Accounts and keys that name no pool', ...members(DEFAULT_POOL) },
+            ...pools.map(pool => ({ ...pool, ...members(pool.name) })),
+        ]);
+    } catch (err: any) {
+        console.error('Get pools error:', err);
+        res.status(500).json({ error: 'Failed to fetch account pools' });
+    }
+});
+
+app.post('/api/admin/pools', requireAdmin, async (req, res) => {
+    try {
+        const { name, description } = req.body;
+        if (!isValidPoolName(name) || name === DEFAULT_POOL) {
+            return res.status(400).json({ error: `Pool name must be 1-32 lowercase letters, digits, - or _, and not "${DEFAULT_POOL}".` });
+        }
+        if (description !== undefined && typeof description !== 'string') {
+            return res.status(400).json({ error: 'description must be a string.' });
+        }
+        const pool = { name, ...(description?.trim() && { description: description.trim() }), createdAt: new Date() };
+        await getDatabase().upsertAccountPool(pool);
+        res.json({ success: true, pool });
+    } catch (err: any) {
+        console.error('Create pool error:', err);
+        res.status(500).json({ error: 'Failed to save account pool' });
+    }
+});
+
+app.delete('/api/admin/pools/:name', requireAdmin, async (req, res) => {
+    try {
+        const name = String(req.params.name);
+        const db = getDatabase();
+        const [accounts, keys] = await Promise.all([db.getAllAccounts(), db.getAllApiKeys()]);
+        const inUse = accounts.some(a => a.pools?.includes(name)) || keys.some(k => k.pools?.includes(name));
+        if (inUse) {
+            return res.status(409).json({ error: 'Pool still has accounts or API keys; move them out first.' });
+        }
+        await db.deleteAccountPool(name);
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Delete pool error:', err);
+        res.status(500).json({ error: 'Failed to delete account pool' });
+    }
+});
+
 // --- STATS & LOGS ROUTES ---
 
 app.get('/api/stats', requireAdmin, async (req, res) => {
@@ -425,6 +595,10 @@ app.post('/api/admin/db-switch', requireAdmin, async (req, res) => {
 
     try {
         const sourceDb = getDatabase();
+        // Land debounced cooldown writes in the source backend, then read its cooldowns
+        // before the target goes live and starts receiving newer ones
+        await flushCooldownWrites();
+        const cooldowns = await sourceDb.getAccountCooldowns();
 
         // Update config FIRST so getDatabase() returns the new backend
         switchDatabaseBackend(to, to === 'firebase' ? firebase : undefined);
@@ -451,19 +625,36 @@ app.post('/api/admin/db-switch', requireAdmin, async (req, res) => {
                 accountEmail: log.accountEmail,
                 question: log.question,
                 answer: log.answer,
+                ...(log.status && { status: log.status }),
                 tokensUsed: log.tokensUsed,
                 success: log.success,
                 timestamp: log.timestamp,
             });
         }
 
+        // Batch jobs stay behind: each is owned by the hash of the key that submitted it,
+        // and with no keys migrated no one could reach them on the new backend.
+
+        // Migrate pool definitions; account memberships travel with the accounts
+        for (const pool of await sourceDb.getAccountPools()) {
+            await targetDb.upsertAccountPool(pool);
+        }
+
+        // Migrate cooldowns so resting accounts stay benched across the restart below.
+        // Requests served during the migration already write to the target; the later expiry wins.
+        const targetUntil = new Map((await targetDb.getAccountCooldowns()).map(c => [c.email, c.cooldownUntil]));
+        for (const cooldown of cooldowns) {
+            if ((targetUntil.get(cooldown.email) ?? 0) >= cooldown.cooldownUntil) continue;
+            await targetDb.setAccountCooldown(cooldown);
+        }
+
         console.log(`✅ Migration complete. ${accounts.length} accounts, ${logs.length} logs migrated.`);
 
         res.json({
             success: true,
             backend: to,
             migrated: { accounts: accounts.length, logs: logs.length },
-            note: 'API keys could not be automatically migrated. Please regenerate them in the Keys tab.',
+            note: 'API keys and batch jobs could not be automatically migrated. Please regenerate your keys in the Keys tab and resubmit unfinished batch jobs.',
         });
 
         // Restart the process so the new backend is fully initialised from a clean state.
@@ -471,7 +662,7 @@ app.post('/api/admin/db-switch', requireAdmin, async (req, res) => {
         console.log(`🔁 Restarting server to apply new database backend (${to})...`);
         // Exit with non-zero code so nodemon treats it as a crash and auto-restarts.
         // Exit 0 (clean) tells nodemon to wait for file changes — exit 1 forces restart.
-        setTimeout(() => process.exit(1), 500);
+        setTimeout(() => flushCooldownWrites().finally(() => process.exit(1)), 500);
     } catch (err: any) {
         console.error('DB switch error:', err);
         // Try to roll back config change
@@ -485,16 +676,38 @@ app.post('/api/admin/db-switch', requireAdmin, async (req, res) => {
 
 // --- GEMINI PROXY ROUTE ---
 
-import { handleGenerateContent, handleAdminChat } from './controllers/chat';
+import { handleGenerateContent, handleCountTokens, handleAdminChat, recheckModelAvailability } from './controllers/chat';
+import { handleChatCompletions } from './controllers/openai';
+import { handleMessages } from './controllers/anthropic';
+import { handleOllamaChat, handleOllamaGenerate, handleOllamaTags } from './controllers/ollama';
+import { handleListModels, handleGetModel } from './controllers/models';
+import { sendGoogleError } from './controllers/google-errors';
+import {
+    handleCreateBatch,
+    handleListBatches,
+    handleGetBatch,
+    handleCancelBatch,
+    handleDeleteBatch,
+    handleGetBatchResults,
+    kickBatchWorker
+} from './controllers/batch';
 
 // --- MODEL CONFIGURATION ROUTES ---
 
+function currentModelConfig(): ModelConfig {
+    return {
+        fallback: getFirstFallbackModel(),
+        fallbackV2: getSecondFallbackModel(),
+        custom: getCustomModels(),
+        chains: getFallbackChains(),
+        aliases: getModelAliases(),
+        routes: getRoutingRules(),
+    };
+}
+
 app.get('/api/admin/models', requireAdmin, (req, res) => {
     try {
-        res.json({
-            fallback: getFirstFallbackModel(),
-            fallbackV2: getSecondFallbackModel(),
-        });
+        res.json(currentModelConfig());
     } catch (err: any) {
         res.status(500).json({ error: 'Failed to get model configuration.' });
     }
@@ -502,7 +715,7 @@ app.get('/api/admin/models', requireAdmin, (req, res) => {
 
 app.post('/api/admin/models', requireAdmin, (req, res) => {
     try {
-        const { fallback, fallbackV2 } = req.body;
+        const { fallback, fallbackV2, custom } = req.body;
 
         if (!fallback || !fallbackV2) {
             return res.status(400).json({ error: 'Both fallback model fields are required: fallback, fallbackV2.' });
@@ -512,15 +725,23 @@ app.post('/api/admin/models', requireAdmin, (req, res) => {
             return res.status(400).json({ error: 'All model fields must be strings.' });
         }
 
-        updateModels({
-            fallback: fallback.trim(),
-            fallbackV2: fallbackV2.trim(),
-        });
+        if (custom !== undefined && (!Array.isArray(custom) || custom.some((m: any) => typeof m !== 'string'))) {
+            return res.status(400).json({ error: 'custom must be an array of model names.' });
+        }
+
+        // Keep previously defined custom models when the field is omitted
+        const customModels: string[] = custom !== undefined
+            ? [...new Set<string>(custom.map((m: string) => m.trim()).filter(Boolean))]
+            : getCustomModels();
+
+        // Fallback chains, aliases and routing rules are managed through their own routes below
+        const models = { ...currentModelConfig(), fallback: fallback.trim(), fallbackV2: fallbackV2.trim(), custom: customModels };
+        updateModels(models);
 
         res.json({
             success: true,
             message: 'Model configuration updated successfully.',
-            models: { fallback: fallback.trim(), fallbackV2: fallbackV2.trim() },
+            models,
         });
     } catch (err: any) {
         console.error('Model config update error:', err);
@@ -528,10 +749,399 @@ app.post('/api/admin/models', requireAdmin, (req, res) => {
     }
 });
 
+app.put('/api/admin/models/chains/:model', requireAdmin, (req, res) => {
+    try {
+        const model = (req.params.model as string).trim();
+        const { fallbacks } = req.body;
+
+        if (!Array.isArray(fallbacks) || fallbacks.some((m: any) => typeof m !== 'string' || !m.trim())) {
+            return res.status(400).json({ error: 'fallbacks must be an array of model names (empty for no fallback).' });
+        }
+
+        const chain = [...new Set<string>(fallbacks.map((m: string) => m.trim()))].filter(m => m !== model);
+        const models = currentModelConfig();
+        models.chains = { ...models.chains, [model]: chain };
+        updateModels(models);
+
+        res.json({ success: true, model, fallbacks: chain });
+    } catch (err: any) {
+        console.error('Fallback chain update error:', err);
+        res.status(500).json({ error: 'Failed to update fallback chain.' });
+    }
+});
+
+app.delete('/api/admin/models/chains/:model', requireAdmin, (req, res) => {
+    try {
+        const model = req.params.model as string;
+        const models = currentModelConfig();
+        if (!models.chains?.[model]) {
+            return res.status(404).json({ error: 'No fallback chain configured for this model.' });
+        }
+
+        // The model goes back to the default fallback → fallbackV2 chain
+        const { [model]: _removed, ...chains } = models.chains;
+        updateModels({ ...models, chains });
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Fallback chain delete error:', err);
+        res.status(500).json({ error: 'Failed to delete fallback chain.' });
+    }
+});
+
+app.put('/api/admin/models/aliases/:alias', requireAdmin, (req, res) => {
+    try {
+        const alias = req.params.alias as string;
+        const { target } = req.body;
+
+        if (!isValidAliasName(alias)) {
+            return res.status(400).json({ error: 'Alias names may contain letters, digits, ".", "_" and "-".' });
+        }
+        if (typeof target !== 'string' || !target.trim() || target.trim() === alias) {
+            return res.status(400).json({ error: 'target must be a model name other than the alias itself.' });
+        }
+
+        const models = currentModelConfig();
+        models.aliases = { ...models.aliases, [alias]: target.trim() };
+        updateModels(models);
+
+        res.json({ success: true, alias, target: target.trim() });
+    } catch (err: any) {
+        console.error('Model alias update error:', err);
+        res.status(500).json({ error: 'Failed to update model alias.' });
+    }
+});
+
+app.delete('/api/admin/models/aliases/:alias', requireAdmin, (req, res) => {
+    try {
+        const alias = req.params.alias as string;
+        const models = currentModelConfig();
+        if (!models.aliases?.[alias]) {
+            return res.status(404).json({ error: 'Alias not found.' });
+        }
+
+        const { [alias]: _removed, ...aliases } = models.aliases;
+        updateModels({ ...models, aliases });
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Model alias delete error:', err);
+        res.status(500).json({ error: 'Failed to delete model alias.' });
+    }
+});
+
+app.post('/api/admin/models/routes', requireAdmin, (req, res) => {
+    try {
+        const parsed = parseRoutingRule(req.body);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+
+        const rule = { id: crypto.randomBytes(6).toString('hex'), ...parsed };
+        const models = currentModelConfig();
+        // Rules run in order; `position` inserts ahead of an existing rule instead of appending
+        const routes = [...(models.routes ?? [])];
+        const position = Number.isInteger(req.body.position) ? Math.max(0, req.body.position) : routes.length;
+        routes.splice(position, 0, rule);
+        updateModels({ ...models, routes });
+
+        res.status(201).json({ success: true, rule });
+    } catch (err: any) {
+        console.error('Routing rule create error:', err);
+        res.status(500).json({ error: 'Failed to create routing rule.' });
+    }
+});
+
+app.put('/api/admin/models/routes/:id', requireAdmin, (req, res) => {
+    try {
+        const models = currentModelConfig();
+        const routes = [...(models.routes ?? [])];
+        const index = routes.findIndex(r => r.id === req.params.id);
+        if (index === -1) {
+            return res.status(404).json({ error: 'Routing rule not found.' });
+        }
+
+        const parsed = parseRoutingRule(req.body);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+
+        const rule = { id: routes[index].id, ...parsed };
+        routes[index] = rule;
+        updateModels({ ...models, routes });
+
+        res.json({ success: true, rule });
+    } catch (err: any) {
+        console.error('Routing rule update error:', err);
+        res.status(500).json({ error: 'Failed to update routing rule.' });
+    }
+});
+
+app.delete('/api/admin/models/routes/:id', requireAdmin, (req, res) => {
+    try {
+        const models = currentModelConfig();
+        const routes = (models.routes ?? []).filter(r => r.id !== req.params.id);
+        if (routes.length === models.routes?.length) {
+            return res.status(404).json({ error: 'Routing rule not found.' });
+        }
+
+        updateModels({ ...models, routes });
+        res.json({ success: true });
+    } catch (err: any) {
+        console.error('Routing rule delete error:', err);
+        res.status(500).json({ error: 'Failed to delete routing rule.' });
+    }
+});
+
+// --- RESPONSE CACHE ROUTES ---
+
+app.get('/api/admin/cache', requireAdmin, (req, res) => {
+    try {
+        res.json({ ...getCacheConfig(), memoryEntries: getMemoryCacheSize() });
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get cache configuration.' });
+    }
+});
+
+app.post('/api/admin/cache', requireAdmin, (req, res) => {
+    try {
+        const current = getCacheConfig();
+        const { enabled = current.enabled, storage = current.storage, ttlSeconds = current.ttlSeconds, maxEntries = current.maxEntries } = req.body;
+
+        if (typeof enabled !== 'boolean') {
+            return res.status(400).json({ error: 'enabled must be a boolean.' });
+        }
+        if (storage !== 'memory' && storage !== 'database') {
+            return res.status(400).json({ error: 'storage must be "memory" or "database".' });
+        }
+        if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) {
+            return res.status(400).json({ error: 'ttlSeconds must be a positive integer.' });
+        }
+        if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+            return res.status(400).json({ error: 'maxEntries must be a positive integer.' });
+        }
+
+        const cache = { enabled, storage, ttlSeconds, maxEntries };
+        updateCacheConfig(cache);
+
+        res.json({
+            success: true,
+            message: 'Cache configuration updated successfully.',
+            cache,
+        });
+    } catch (err: any) {
+        console.error('Cache config update error:', err);
+        res.status(500).json({ error: 'Failed to update cache configuration.' });
+    }
+});
+
+app.delete('/api/admin/cache', requireAdmin, async (req, res) => {
+    try {
+        const removed = await clearResponseCache();
+        res.json({ success: true, removed });
+    } catch (err: any) {
+        console.error('Cache clear error:', err);
+        res.status(500).json({ error: 'Failed to clear response cache.' });
+    }
+});
+
+app.get('/api/admin/structured-output', requireAdmin, (req, res) => {
+    try {
+        res.json(getStructuredOutputConfig());
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get structured output configuration.' });
+    }
+});
+
+app.post('/api/admin/structured-output', requireAdmin, (req, res) => {
+    try {
+        const current = getStructuredOutputConfig();
+        const { enabled = current.enabled, maxRetries = current.maxRetries } = req.body;
+
+        if (typeof enabled !== 'boolean') {
+            return res.status(400).json({ error: 'enabled must be a boolean.' });
+        }
+        if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 5) {
+            return res.status(400).json({ error: 'maxRetries must be an integer between 0 and 5.' });
+        }
+
+        const structuredOutput = { enabled, maxRetries };
+        updateStructuredOutputConfig(structuredOutput);
+
+        res.json({
+            success: true,
+            message: 'Structured output configuration updated successfully.',
+            structuredOutput,
+        });
+    } catch (err: any) {
+        console.error('Structured output config update error:', err);
+        res.status(500).json({ error: 'Failed to update structured output configuration.' });
+    }
+});
+
+app.get('/api/admin/routing-limits', requireAdmin, (req, res) => {
+    try {
+        res.json(getRoutingLimits());
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get routing limits.' });
+    }
+});
+
+app.post('/api/admin/routing-limits', requireAdmin, (req, res) => {
+    try {
+        const routingLimits = parseRoutingLimits(req.body);
+        if ('error' in routingLimits) {
+            return res.status(400).json({ error: routingLimits.error });
+        }
+        updateRoutingLimits(routingLimits);
+
+        res.json({
+            success: true,
+            message: 'Routing limits updated successfully.',
+            routingLimits,
+        });
+    } catch (err: any) {
+        console.error('Routing limits update error:', err);
+        res.status(500).json({ error: 'Failed to update routing limits.' });
+    }
+});
+
+app.get('/api/admin/hedging', requireAdmin, (req, res) => {
+    try {
+        res.json({ ...getHedgingConfig(), stats: getHedgingStats() });
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get hedging configuration.' });
+    }
+});
+
+app.post('/api/admin/hedging', requireAdmin, (req, res) => {
+    try {
+        const hedging = parseHedgingConfig(req.body);
+        if ('error' in hedging) {
+            return res.status(400).json({ error: hedging.error });
+        }
+        updateHedgingConfig(hedging);
+
+        res.json({
+            success: true,
+            message: 'Hedging configuration updated successfully.',
+            hedging,
+        });
+    } catch (err: any) {
+        console.error('Hedging config update error:', err);
+        res.status(500).json({ error: 'Failed to update hedging configuration.' });
+    }
+});
+
+app.get('/api/admin/account-selection', requireAdmin, async (req, res) => {
+    try {
+        res.json({
+            ...getAccountSelectionConfig(),
+            strategies: SELECTION_STRATEGIES,
+            accounts: getSelectionDiagnostics(await getReadyAccounts()),
+        });
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get account selection configuration.' });
+    }
+});
+
+app.post('/api/admin/account-selection', requireAdmin, (req, res) => {
+    try {
+        const { strategy } = req.body;
+        if (!isSelectionStrategy(strategy)) {
+            return res.status(400).json({ error: `strategy must be one of: ${SELECTION_STRATEGIES.join(', ')}.` });
+        }
+
+        const accountSelection = { strategy };
+        updateAccountSelectionConfig(accountSelection);
+
+        res.json({
+            success: true,
+            message: 'Account selection strategy updated successfully.',
+            accountSelection,
+        });
+    } catch (err: any) {
+        console.error('Account selection config update error:', err);
+        res.status(500).json({ error: 'Failed to update account selection strategy.' });
+    }
+});
+
+app.get('/api/admin/affinity', requireAdmin, (req, res) => {
+    try {
+        res.json(getAffinityConfig());
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get session affinity configuration.' });
+    }
+});
+
+app.post('/api/admin/affinity', requireAdmin, (req, res) => {
+    try {
+        const affinity = parseAffinityConfig(req.body);
+        if ('error' in affinity) {
+            return res.status(400).json({ error: affinity.error });
+        }
+        updateAffinityConfig(affinity);
+
+        res.json({
+            success: true,
+            message: 'Session affinity configuration updated successfully.',
+            affinity,
+        });
+    } catch (err: any) {
+        console.error('Affinity config update error:', err);
+        res.status(500).json({ error: 'Failed to update session affinity configuration.' });
+    }
+});
+
+app.delete('/api/admin/affinity', requireAdmin, (req, res) => {
+    res.json({ success: true, removed: clearAffinity() });
+});
+
+// Live routing state: pinned sessions and account cooldowns
+app.get('/api/admin/diagnostics', requireAdmin, (req, res) => {
+    try {
+        res.json({
+            affinity: getAffinityDiagnostics(),
+            cooldowns: getCooldownDiagnostics(),
+        });
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get diagnostics.' });
+    }
+});
+
+app.get('/api/admin/model-availability', requireAdmin, (req, res) => {
+    try {
+        res.json(getModelAvailabilityConfig());
+    } catch (err: any) {
+        res.status(500).json({ error: 'Failed to get model availability configuration.' });
+    }
+});
+
+app.post('/api/admin/model-availability', requireAdmin, (req, res) => {
+    try {
+        const modelAvailability = parseModelAvailabilityConfig(req.body);
+        if ('error' in modelAvailability) {
+            return res.status(400).json({ error: modelAvailability.error });
+        }
+        updateModelAvailabilityConfig(modelAvailability);
+
+        res.json({
+            success: true,
+            message: 'Model availability configuration updated successfully.',
+            modelAvailability,
+        });
+    } catch (err: any) {
+        console.error('Model availability config update error:', err);
+        res.status(500).json({ error: 'Failed to update model availability configuration.' });
+    }
+});
+
 const apiLimiter = rateLimit({
     windowMs: 1 * 60 * 1000, // 1 minute
     max: 120, // Strict API limit per minute to prevent brute force / dos
-    message: { error: 'Too many requests. Please try again later.' }
+    handler: (req, res) => {
+        const resetTime = (req as express.Request & { rateLimit?: RateLimitInfo }).rateLimit?.resetTime;
+        const retryAfter = Math.max(1, Math.ceil(((resetTime?.getTime() ?? Date.now() + 60_000) - Date.now()) / 1000));
+        rejectApiRequest(req, res, 429, 'Too many requests. Please try again later.', retryAfter);
+    },
 });
 
 // --- ADMIN CHAT ROUTE ---
@@ -545,13 +1155,69 @@ app.get(['/overview', '/accounts', '/keys', '/logs', '/docs', '/chat', '/setting
     res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
+app.get('/v1beta/models', apiLimiter, requireApiKey, handleListModels);
+app.get('/v1beta/models/:model', apiLimiter, requireApiKey, handleGetModel);
+
 app.post('/v1beta/models/:model\\::action', apiLimiter, requireApiKey, (req, res, next) => {
     if (req.params.action === 'generateContent' || req.params.action === 'streamGenerateContent') {
         return handleGenerateContent(req, res);
     }
-    return res.status(404).json({ error: 'Not found or unsupported action' });
+    if (req.params.action === 'countTokens') {
+        return handleCountTokens(req, res);
+    }
+    return sendGoogleError(res, 404, 'Not found or unsupported action');
 });
 
+// --- VERTEX AI-STYLE ROUTES ---
+// The Vertex flavour of the Gen AI SDK addresses models by project/location (or, in
+// express mode, by publisher only). Project and location are ignored; the OpenGem
+// API key is accepted as the Bearer token in place of a Google access token.
+const VERTEX_MODEL_PATHS = [
+    '/v1/projects/:project/locations/:location/publishers/google/models/:model\\::action',
+    '/v1beta1/projects/:project/locations/:location/publishers/google/models/:model\\::action',
+    '/v1/publishers/google/models/:model\\::action',
+    '/v1beta1/publishers/google/models/:model\\::action',
+];
+
+app.post(VERTEX_MODEL_PATHS, apiLimiter, requireApiKey, (req, res) => {
+    if (req.params.action === 'generateContent' || req.params.action === 'streamGenerateContent') {
+        return handleGenerateContent(req, res);
+    }
+    if (req.params.action === 'countTokens') {
+        return handleCountTokens(req, res);
+    }
+    return sendGoogleError(res, 404, 'Not found or unsupported action');
+});
+
+// --- OPENAI-COMPATIBLE ROUTE ---
+app.post('/v1/chat/completions', apiLimiter, requireApiKey, (req, res) => {
+    handleChatCompletions(req, res);
+});
+
+// --- BATCH JOB ROUTES ---
+const jsonlParser = express.text({ type: ['application/jsonl', 'application/x-ndjson', 'text/plain'], limit: '50mb' });
+
+app.post('/v1beta/batches', apiLimiter, requireApiKey, jsonlParser, handleCreateBatch);
+app.get('/v1beta/batches', apiLimiter, requireApiKey, handleListBatches);
+app.get('/v1beta/batches/:id', apiLimiter, requireApiKey, handleGetBatch);
+app.get('/v1beta/batches/:id/results', apiLimiter, requireApiKey, handleGetBatchResults);
+app.post('/v1beta/batches/:id\\:cancel', apiLimiter, requireApiKey, handleCancelBatch);
+app.delete('/v1beta/batches/:id', apiLimiter, requireApiKey, handleDeleteBatch);
+
+// --- ANTHROPIC-COMPATIBLE ROUTE ---
+app.post('/v1/messages', apiLimiter, requireApiKey, (req, res) => {
+    handleMessages(req, res);
+});
+
+// --- OLLAMA-COMPATIBLE ROUTES ---
+app.post('/api/chat', apiLimiter, requireApiKey, (req, res) => {
+    handleOllamaChat(req, res);
+});
+app.post('/api/generate', apiLimiter, requireApiKey, (req, res) => {
+    handleOllamaGenerate(req, res);
+});
+app.get('/api/tags', apiLimiter, requireApiKey, handleOllamaTags);
+
 const PORT = process.env.PORT || 3050;
 const EXHAUSTION_COOLDOWN_MS = 60 * 60 * 1000; // 60 minutes
 
@@ -564,6 +1230,8 @@ app.listen(PORT, async () => {
         console.log(`✅ System configured and ready.`);
         // Warm the in-memory account cache so the first request is instant
         warmAccountCache().catch(err => console.error('Account cache warm failed:', err));
+        // Resume any batch jobs that were queued or running before the restart
+        kickBatchWorker();
     }
 
     // Background job: auto-reactivate exhausted accounts every 5 minutes
@@ -578,8 +1246,21 @@ app.listen(PORT, async () => {
         } catch (err) {
             console.error('❌ Background reactivation check failed:', err);
         }
+        kickBatchWorker(); // No-op if the worker is already draining
+        await recheckModelAvailability().catch(err => console.error('❌ Model availability recheck failed:', err));
     }, 5 * 60 * 1000); // Check every 5 minutes
 });
 
+// Land debounced cooldown writes before stopping, so the next boot restores them.
+// A hung database must not keep the process alive, hence the deadline.
+const SHUTDOWN_FLUSH_DEADLINE_MS = 5_000;
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+        console.log(`🛑 ${signal} received — saving account cooldowns before exit...`);
+        setTimeout(() => process.exit(0), SHUTDOWN_FLUSH_DEADLINE_MS).unref();
+        flushCooldownWrites().finally(() => process.exit(0));
+    });
+}
+
 // Export the Express app (for potential future use)
 export default app;
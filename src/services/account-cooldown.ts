@@ -6,9 +6,14 @@
  * - Rate limit cooldown (short, auto-expires)
  * - Quota exhaustion cooldown (long, probed for recovery)
  * - Probe recovery: periodically tests exhausted accounts to detect recovery
+ *
+ * Changes are written to the database — debounced, and in order per account — and
+ * `restoreCooldowns` loads the entries back at boot, so a restart does not send
+ * traffic straight back to an account that is resting after a quota error.
  */
 
 import { ErrorCategory } from './error-classifier';
+import { getDatabase } from './database';
 
 export interface AccountCooldownState {
     cooldownUntil: number;    // epoch ms when cooldown expires
@@ -21,9 +26,80 @@ const MIN_PROBE_INTERVAL_MS = 30_000;  // 30 seconds between probes (from opencl
 const RATE_LIMIT_COOLDOWN_MS = 15_000; // 15 seconds for rate limits
 const QUOTA_COOLDOWN_MS = 60 * 60 * 1000; // 60 minutes for quota exhaustion
 const PROBE_MARGIN_MS = 2 * 60 * 1000;    // Start probing 2 min before cooldown expires
+const PERSIST_DEBOUNCE_MS = 1_000;        // Collapses bursts (e.g. a 429 storm) into one write per account
 
 // In-memory cooldown state per account email
 const cooldownState = new Map<string, AccountCooldownState>();
+let restorePromise: Promise<number> | null = null;
+
+// Accounts whose cooldown changed since the last flush; each flush writes their state at that moment
+const pendingWrites = new Set<string>();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+// Flushes run one after another, so a later write for an account never lands before an earlier one
+let writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Schedules an account's current cooldown to be written to the database, or
+ * removed once cleared. Fire-and-forget: a failed write must never fail the
+ * request that caused it.
+ */
+function persist(email: string): void {
+    pendingWrites.add(email);
+    if (persistTimer) return; // Already scheduled
+    persistTimer = setTimeout(flushCooldownWrites, PERSIST_DEBOUNCE_MS);
+}
+
+async function writeCooldown(email: string): Promise<void> {
+    try {
+        const state = cooldownState.get(email);
+        if (state) await getDatabase().setAccountCooldown({ email, ...state });
+        else await getDatabase().deleteAccountCooldown(email);
+    } catch (err) {
+        console.error(`❌ Failed to persist cooldown of ${email}:`, err);
+    }
+}
+
+/** Writes pending cooldown changes now; resolves once they (and any earlier writes) are done. */
+export function flushCooldownWrites(): Promise<void> {
+    if (persistTimer) {
+        clearTimeout(persistTimer);
+        persistTimer = null;
+    }
+    const emails = [...pendingWrites];
+    pendingWrites.clear();
+    writeChain = writeChain.then(async () => { await Promise.all(emails.map(writeCooldown)); });
+    return writeChain;
+}
+
+async function loadCooldowns(): Promise<number> {
+    const now = Date.now();
+    let restored = 0;
+    for (const { email, ...state } of await getDatabase().getAccountCooldowns()) {
+        if (state.cooldownUntil <= now) {
+            if (!cooldownState.has(email)) persist(email); // Removes the stale entry
+            continue;
+        }
+        if (cooldownState.has(email)) continue;
+        cooldownState.set(email, state);
+        restored++;
+    }
+    if (restored > 0) console.log(`🔒 Restored ${restored} account cooldown(s) from before the restart.`);
+    return restored;
+}
+
+/**
+ * Loads the cooldowns persisted before the last restart; expired ones are dropped.
+ * Succeeds once — later calls return that result, while a failed load is retried
+ * by the next call. Entries recorded since boot are newer and win over the stored ones.
+ */
+export function restoreCooldowns(): Promise<number> {
+    restorePromise ??= loadCooldowns().catch(err => {
+        console.error('❌ Failed to restore account cooldowns:', err);
+        restorePromise = null;
+        return 0;
+    });
+    return restorePromise;
+}
 
 /**
  * Calculate cooldown duration based on error category and failure count.
@@ -63,6 +139,7 @@ export function markAccountCooldown(email: string, category: ErrorCategory): voi
         failureCount,
         lastProbeAt: existing?.lastProbeAt,
     });
+    persist(email);
 
     console.log(`🔒 Account ${email} in cooldown (${category}) for ${Math.round(cooldownMs / 1000)}s [failure #${failureCount}]`);
 }
@@ -115,6 +192,7 @@ export function recordProbe(email: string): void {
     const state = cooldownState.get(email);
     if (state) {
         state.lastProbeAt = Date.now();
+        persist(email);
     }
 }
 
@@ -126,7 +204,7 @@ export function clearAccountCooldown(email: string): void {
     if (state) {
         console.log(`🔓 Account ${email} cooldown cleared (was: ${state.reason}, failures: ${state.failureCount})`);
     }
-    cooldownState.delete(email);
+    if (cooldownState.delete(email)) persist(email);
 }
 
 /**
@@ -139,14 +217,15 @@ export function markAccountSuccess(email: string): void {
 }
 
 /**
- * Get the soonest cooldown expiry across all accounts.
+ * Get the soonest cooldown expiry across all accounts, or across `emails` only.
  * Useful for determining when to retry.
  */
-export function getSoonestCooldownExpiry(): number | null {
+export function getSoonestCooldownExpiry(emails?: string[]): number | null {
     let soonest: number | null = null;
     const now = Date.now();
 
-    for (const [, state] of cooldownState) {
+    for (const [email, state] of cooldownState) {
+        if (emails && !emails.includes(email)) continue;
         if (state.cooldownUntil <= now) continue; // expired
         if (soonest === null || state.cooldownUntil < soonest) {
             soonest = state.cooldownUntil;
@@ -173,6 +252,7 @@ export function clearExpiredCooldowns(): number {
     for (const [email, state] of cooldownState) {
         if (now >= state.cooldownUntil) {
             cooldownState.delete(email);
+            persist(email);
             cleared++;
         }
     }
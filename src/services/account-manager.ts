@@ -10,6 +10,8 @@
 
 import { getDatabase } from './database';
 import { refreshAccessToken } from './gemini';
+import { filterByPools } from './account-pools';
+import { restoreCooldowns } from './account-cooldown';
 import type { Account } from './database';
 
 const CACHE_TTL_MS = 5_000; // Re-fetch accounts from DB at most once every 5 s
@@ -26,17 +28,18 @@ const tokenRefreshInFlight = new Map<string, Promise<string>>();
 // ─── Public API ──────────────────────────────────────────────────────────────
 
 /**
- * Returns the current list of active accounts from the in-memory cache.
+ * Returns the current list of active accounts from the in-memory cache, limited to
+ * the accounts serving one of `pools` when the caller is bound to pools.
  * Triggers a background refresh if the cache is stale, but never blocks the caller.
  * On first call (cold start) it waits for the initial data to load.
  */
-export async function getReadyAccounts(): Promise<Account[]> {
+export async function getReadyAccounts(pools?: string[]): Promise<Account[]> {
     const now = Date.now();
 
     if (cachedAccounts.length === 0 && cacheUpdatedAt === 0) {
-        // Cold start — must wait for first load
-        await refreshCache();
-        return cachedAccounts;
+        // Cold start — must wait for first load, and for the cooldowns from before a restart
+        await Promise.all([refreshCache(), restoreCooldowns()]);
+        return filterByPools(cachedAccounts, pools);
     }
 
     if (now - cacheUpdatedAt > CACHE_TTL_MS) {
@@ -44,7 +47,7 @@ export async function getReadyAccounts(): Promise<Account[]> {
         triggerBackgroundRefresh();
     }
 
-    return cachedAccounts;
+    return filterByPools(cachedAccounts, pools);
 }
 
 /**
@@ -106,10 +109,11 @@ export function invalidateAccountCache(): void {
 }
 
 /**
- * Warms the cache at server startup so the first real request isn't delayed.
+ * Warms the cache at server startup so the first real request isn't delayed, and
+ * restores persisted cooldowns so that request doesn't land on a resting account.
  */
 export async function warmAccountCache(): Promise<void> {
-    await refreshCache();
+    await Promise.all([refreshCache(), restoreCooldowns()]);
     console.log(`✅ Account cache warmed: ${cachedAccounts.length} active account(s).`);
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Account pools.
+ *
+ * Accounts are grouped into named pools and each API key is bound to the pools it
+ * may draw from, so one client's traffic cannot use up the accounts another relies
+ * on. Accounts and keys that name no pool belong to the implicit `default` pool,
+ * which keeps a setup without pools working exactly as before.
+ */
+
+import type { Account, ApiKey } from './database';
+
+export const DEFAULT_POOL = 'default';
+
+const POOL_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export function isValidPoolName(name: any): name is string {
+    return typeof name === 'string' && POOL_NAME_PATTERN.test(name);
+}
+
+/** Pools an account serves. */
+export function poolsOfAccount(account: Account): string[] {
+    return account.pools?.length ? account.pools : [DEFAULT_POOL];
+}
+
+/** Pools a key — or a batch job it submitted — draws accounts from. */
+export function poolsOfKey(key: Pick<ApiKey, 'pools'>): string[] {
+    return key.pools?.length ? key.pools : [DEFAULT_POOL];
+}
+
+/** The accounts serving at least one of `pools`; every account when no pools are given. */
+export function filterByPools(accounts: Account[], pools?: string[]): Account[] {
+    if (!pools) return accounts;
+    return accounts.filter(account => poolsOfAccount(account).some(pool => pools.includes(pool)));
+}
+
+/**
+ * Validates a list of pool names sent by the admin API against the pools that
+ * exist (`default` always does). Duplicates are dropped; an empty list means the
+ * default pool.
+ */
+export function parsePoolList(input: any, known: string[]): string[] | { error: string } {
+    if (!Array.isArray(input) || !input.every(isValidPoolName)) {
+        return { error: 'pools must be an array of pool names.' };
+    }
+    const unknown = input.filter(name => name !== DEFAULT_POOL && !known.includes(name));
+    if (unknown.length) return { error: `Unknown pool(s): ${unknown.join(', ')}.` };
+    return [...new Set<string>(input)];
+}
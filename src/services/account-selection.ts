@@ -0,0 +1,153 @@
+/**
+ * Account selection strategies.
+ *
+ * The rotation loops in chat.ts try the ready accounts in the order returned by
+ * `orderAccounts`. The strategy is chosen in the admin settings; the weighted ones
+ * combine each account's manual `weight` with what this process has observed about
+ * it — calls in flight, recent success rate and latency — via `trackAttempt`.
+ */
+
+import { getConfig, isConfigured, AccountSelectionConfig } from './config';
+import type { Account, SelectionStrategy } from './database';
+
+export const SELECTION_STRATEGIES: SelectionStrategy[] = [
+    'least-recently-used', 'round-robin', 'least-in-flight', 'weighted', 'pro-first', 'random-weighted',
+];
+
+export const DEFAULT_ACCOUNT_SELECTION_CONFIG: AccountSelectionConfig = {
+    strategy: 'least-recently-used',
+};
+
+// Weight of the newest outcome in the moving averages
+const SMOOTHING = 0.2;
+// Latency at which an account's score is halved; also assumed for accounts with no answers yet
+const REFERENCE_LATENCY_MS = 5_000;
+// A struggling account keeps a small share rather than never being tried again
+const MIN_SUCCESS_RATE = 0.05;
+
+interface AccountHealth {
+    inFlight: number;
+    /** Moving average of outcomes: 1 = every recent call succeeded. */
+    successRate: number;
+    /** Moving average of answer latency; unknown until the first success. */
+    latencyMs?: number;
+}
+
+/** One call on one account. Exactly one outcome counts; later calls are ignored. */
+export interface AttemptTracker {
+    /** The account answered; `latencyMs` defaults to the time since the attempt started. */
+    succeed(latencyMs?: number): void;
+    fail(): void;
+    /** Stopped without a verdict on the account (the client left, a hedge won). */
+    abandon(): void;
+}
+
+const health = new Map<string, AccountHealth>();
+let roundRobinCursor = 0;
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getAccountSelectionConfig(): AccountSelectionConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_ACCOUNT_SELECTION_CONFIG, ...getConfig().accountSelection };
+    } catch { /* fallback to default */ }
+    return DEFAULT_ACCOUNT_SELECTION_CONFIG;
+}
+
+export function isSelectionStrategy(value: any): value is SelectionStrategy {
+    return SELECTION_STRATEGIES.includes(value);
+}
+
+// ─── Observations ────────────────────────────────────────────────────────────
+
+function healthOf(email: string): AccountHealth {
+    let entry = health.get(email);
+    if (!entry) {
+        entry = { inFlight: 0, successRate: 1 };
+        health.set(email, entry);
+    }
+    return entry;
+}
+
+export function trackAttempt(email: string): AttemptTracker {
+    const entry = healthOf(email);
+    const startedAt = Date.now();
+    let open = true;
+    entry.inFlight++;
+
+    const close = () => {
+        if (!open) return false;
+        open = false;
+        entry.inFlight--;
+        return true;
+    };
+
+    return {
+        succeed(latencyMs = Date.now() - startedAt) {
+            if (!close()) return;
+            entry.successRate += SMOOTHING * (1 - entry.successRate);
+            entry.latencyMs = entry.latencyMs === undefined ? latencyMs : entry.latencyMs + SMOOTHING * (latencyMs - entry.latencyMs);
+        },
+        fail() {
+            if (!close()) return;
+            entry.successRate -= SMOOTHING * entry.successRate;
+        },
+        abandon() {
+            close();
+        },
+    };
+}
+
+/** Manual weight × recent success rate × a latency factor in (0, 1]. */
+export function accountScore(account: Account): number {
+    const entry = health.get(account.email);
+    const latency = entry?.latencyMs ?? REFERENCE_LATENCY_MS;
+    const successRate = Math.max(MIN_SUCCESS_RATE, entry?.successRate ?? 1);
+    return (account.weight ?? 1) * successRate * (REFERENCE_LATENCY_MS / (REFERENCE_LATENCY_MS + latency));
+}
+
+/** Per-account view of the observations, for the admin API. */
+export function getSelectionDiagnostics(accounts: Account[]) {
+    return accounts.map(account => {
+        const entry = health.get(account.email);
+        return {
+            email: account.email,
+            weight: account.weight ?? 1,
+            inFlight: entry?.inFlight ?? 0,
+            successRate: Number((entry?.successRate ?? 1).toFixed(3)),
+            ...(entry?.latencyMs !== undefined && { latencyMs: Math.round(entry.latencyMs) }),
+            score: Number(accountScore(account).toFixed(4)),
+        };
+    });
+}
+
+// ─── Ordering ────────────────────────────────────────────────────────────────
+
+/**
+ * The accounts in the order the strategy wants them tried. `least-recently-used`
+ * keeps the database order (oldest `lastUsedAt` first); the sorts are stable, so
+ * ties keep it too.
+ */
+export function orderAccounts(accounts: Account[], strategy: SelectionStrategy = getAccountSelectionConfig().strategy): Account[] {
+    switch (strategy) {
+        case 'round-robin': {
+            if (accounts.length === 0) return accounts;
+            const start = roundRobinCursor++ % accounts.length;
+            return [...accounts.slice(start), ...accounts.slice(0, start)];
+        }
+        case 'least-in-flight':
+            return [...accounts].sort((a, b) => (health.get(a.email)?.inFlight ?? 0) - (health.get(b.email)?.inFlight ?? 0));
+        case 'weighted':
+            return [...accounts].sort((a, b) => accountScore(b) - accountScore(a));
+        case 'pro-first':
+            return [...accounts].sort((a, b) => Number(!!b.isPro) - Number(!!a.isPro));
+        case 'random-weighted':
+            // Weighted shuffle (Efraimidis–Spirakis): the higher u^(1/score), the earlier the account
+            return accounts
+                .map(account => ({ account, key: Math.random() ** (1 / accountScore(account)) }))
+                .sort((a, b) => b.key - a.key)
+                .map(({ account }) => account);
+        default:
+            return accounts;
+    }
+}
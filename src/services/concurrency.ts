@@ -56,17 +56,31 @@ class RequestSemaphore {
 
     constructor(private readonly maxConcurrent: number) { }
 
-    async acquire(): Promise<void> {
+    /**
+     * Wait for a free slot. If `signal` aborts while queued, the waiter is
+     * removed from the queue and the promise rejects without taking a slot.
+     */
+    async acquire(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) throw new Error('Request aborted before acquiring a slot');
+
         if (this.active < this.maxConcurrent) {
             this.active++;
             return;
         }
 
-        return new Promise<void>(resolve => {
-            this.queue.push(() => {
+        return new Promise<void>((resolve, reject) => {
+            const grant = () => {
+                signal?.removeEventListener('abort', onAbort);
                 this.active++;
                 resolve();
-            });
+            };
+            const onAbort = () => {
+                const index = this.queue.indexOf(grant);
+                if (index !== -1) this.queue.splice(index, 1);
+                reject(new Error('Request aborted while waiting for a slot'));
+            };
+            this.queue.push(grant);
+            signal?.addEventListener('abort', onAbort, { once: true });
         });
     }
 
@@ -79,8 +93,8 @@ class RequestSemaphore {
     /**
      * Execute a function with the semaphore.
      */
-    async run<T>(fn: () => Promise<T>): Promise<T> {
-        await this.acquire();
+    async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
         try {
             return await fn();
         } finally {
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import bcrypt from 'bcrypt';
+import type { SelectionStrategy } from './database';
 
 const CONFIG_PATH = path.join(__dirname, '../../config.json');
 
@@ -20,8 +21,96 @@ const AUTH_TAG_LENGTH = 16; // 128-bit auth tag
 // --- Types ---
 
 export interface ModelConfig {
+    /** Default fallback chain (fallback → fallbackV2) for models without a chain of their own. */
     fallback: string;
     fallbackV2: string;
+    /** Per-model fallback chains, tried in order after a 429. An empty chain disables fallback for that model. */
+    chains?: Record<string, string[]>;
+    /** Extra model names advertised by the model listing endpoints. */
+    custom?: string[];
+    /** Short names clients can use instead of model ids, e.g. `fast` → `gemini-3-flash-preview`. */
+    aliases?: Record<string, string>;
+    /** Evaluated in order; the first matching rule picks the model. */
+    routes?: RoutingRule[];
+}
+
+/** Sends requests with matching traits to `target`. Every condition that is set must hold. */
+export interface RoutingRule {
+    id: string;
+    /** Model or alias the request asked for; any model when absent. */
+    model?: string;
+    /** Bounds on the estimated prompt size, in tokens. */
+    minPromptTokens?: number;
+    maxPromptTokens?: number;
+    /** Match only requests that do (true) or do not (false) declare tools. */
+    hasTools?: boolean;
+    /** API keys the rule applies to. */
+    apiKeyIds?: string[];
+    /** Model or alias to use instead. */
+    target: string;
+}
+
+export interface CacheConfig {
+    /** Default for API keys without their own setting. */
+    enabled: boolean;
+    /** `database` keeps entries in the active DB backend so they survive restarts. */
+    storage: 'memory' | 'database';
+    ttlSeconds: number;
+    maxEntries: number;
+}
+
+export interface StructuredOutputConfig {
+    /** Validate JSON answers against the request's responseSchema by default. */
+    enabled: boolean;
+    /** Re-asks after a failed validation (and failed repair) before giving up. */
+    maxRetries: number;
+}
+
+export interface RoutingLimits {
+    /** Highest rotation round count a request may ask for with `X-OpenGem-Max-Attempts`. */
+    maxAttempts: number;
+    /** Longest deadline, in milliseconds, a request may set with `X-OpenGem-Timeout-Ms`. */
+    maxTimeoutMs: number;
+}
+
+export interface HedgingConfig {
+    /** Send slow non-streaming requests to a second account as well. */
+    enabled: boolean;
+    /** Wait before hedging, in ms. Also used while too few latencies are known for `percentile`. */
+    delayMs: number;
+    /** Hedge once a request is slower than this percentile of recent answers (e.g. 95); 0 uses `delayMs`. */
+    percentile: number;
+    /** Hedges allowed per 100 requests. */
+    budgetPercent: number;
+}
+
+export interface AccountSelectionConfig {
+    /** Order in which the rotation loops try the ready accounts. */
+    strategy: SelectionStrategy;
+}
+
+export interface AffinityConfig {
+    enabled: boolean;
+    /** How long a session stays pinned after its last request. */
+    ttlSeconds: number;
+    /** Derive a session from the conversation's first turn when the client sends no X-OpenGem-Session. */
+    deriveFromPrefix: boolean;
+}
+
+/** Keeps accounts from serving matching models. Every condition that is set must hold for an account. */
+export interface ModelAccessRule {
+    /** Model name; `*` matches any run of characters (e.g. `*-pro-*`). */
+    model: string;
+    /** Only Pro-tier accounts may serve the model. */
+    requirePro?: boolean;
+    /** Only these accounts (by email) may serve the model. */
+    accounts?: string[];
+}
+
+export interface ModelAvailabilityConfig {
+    /** How often an account marked unable to serve a model is checked again; 0 turns the checks off. */
+    recheckMinutes: number;
+    rules: ModelAccessRule[];
 }
 
 export interface AppConfig {
@@ -45,6 +134,20 @@ export interface AppConfig {
     dbBackend?: 'firebase' | 'local';
     /** Custom model configuration. Uses hardcoded defaults if absent. */
     models?: ModelConfig;
+    /** Response cache settings. The cache is off if absent. */
+    cache?: CacheConfig;
+    /** responseSchema enforcement settings. Off if absent. */
+    structuredOutput?: StructuredOutputConfig;
+    /** Bounds for per-request routing headers. Defaults apply if absent. */
+    routingLimits?: RoutingLimits;
+    /** Hedged request settings. Off if absent. */
+    hedging?: HedgingConfig;
+    /** Account selection strategy. Least-recently-used order if absent. */
+    accountSelection?: AccountSelectionConfig;
+    /** Session affinity settings. Off if absent. */
+    affinity?: AffinityConfig;
+    /** Per-account model availability rechecks and access rules. Hourly rechecks, no rules if absent. */
+    modelAvailability?: ModelAvailabilityConfig;
 }
 
 // The raw JSON shape on disk (encrypted values are strings)
@@ -67,6 +170,13 @@ interface EncryptedConfig {
     setupCompletedAt?: string;
     dbBackend?: 'firebase' | 'local';
     models?: ModelConfig;
+    cache?: CacheConfig;
+    structuredOutput?: StructuredOutputConfig;
+    routingLimits?: RoutingLimits;
+    hedging?: HedgingConfig;
+    accountSelection?: AccountSelectionConfig;
+    affinity?: AffinityConfig;
+    modelAvailability?: ModelAvailabilityConfig;
 }
 
 // --- Encryption Key Management ---
@@ -223,6 +333,13 @@ export function getConfig(): AppConfig {
         setupCompletedAt: encrypted.setupCompletedAt,
         dbBackend,
         models: encrypted.models,
+        cache: encrypted.cache,
+        structuredOutput: encrypted.structuredOutput,
+        routingLimits: encrypted.routingLimits,
+        hedging: encrypted.hedging,
+        accountSelection: encrypted.accountSelection,
+        affinity: encrypted.affinity,
+        modelAvailability: encrypted.modelAvailability,
     };
 
     // Auto-migrate plaintext config to encrypted format
@@ -260,6 +377,13 @@ async function migrateConfig(raw: EncryptedConfig): Promise<void> {
             setupCompletedAt: raw.setupCompletedAt,
             dbBackend: raw.dbBackend || 'firebase',
             models: raw.models,
+            cache: raw.cache,
+            structuredOutput: raw.structuredOutput,
+            routingLimits: raw.routingLimits,
+            hedging: raw.hedging,
+            accountSelection: raw.accountSelection,
+            affinity: raw.affinity,
+            modelAvailability: raw.modelAvailability,
         };
 
         fs.writeFileSync(CONFIG_PATH, JSON.stringify(encryptedConfig, null, 2), 'utf-8');
@@ -293,6 +417,13 @@ export function saveConfig(config: AppConfig): void {
         setupCompletedAt: config.setupCompletedAt,
         dbBackend: config.dbBackend || 'firebase',
         models: config.models,
+        cache: config.cache,
+        structuredOutput: config.structuredOutput,
+        routingLimits: config.routingLimits,
+        hedging: config.hedging,
+        accountSelection: config.accountSelection,
+        affinity: config.affinity,
+        modelAvailability: config.modelAvailability,
     };
 
     fs.writeFileSync(CONFIG_PATH, JSON.stringify(encryptedConfig, null, 2), 'utf-8');
@@ -355,6 +486,66 @@ export function updateModels(models: ModelConfig): void {
     fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
 }
 
+/**
+ * Updates only the cache field in config.json without touching any other values.
+ */
+export function updateCacheConfig(cache: CacheConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.cache = cache;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
+/**
+ * Updates only the structuredOutput field in config.json without touching any other values.
+ */
+export function updateStructuredOutputConfig(structuredOutput: StructuredOutputConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.structuredOutput = structuredOutput;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
+/**
+ * Updates only the routingLimits field in config.json without touching any other values.
+ */
+export function updateRoutingLimits(routingLimits: RoutingLimits): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.routingLimits = routingLimits;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
+/**
+ * Updates only the hedging field in config.json without touching any other values.
+ */
+export function updateHedgingConfig(hedging: HedgingConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.hedging = hedging;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
+/**
+ * Updates only the accountSelection field in config.json without touching any other values.
+ */
+export function updateAccountSelectionConfig(accountSelection: AccountSelectionConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.accountSelection = accountSelection;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
 export async function verifyUsername(plaintext: string, hash: string): Promise<boolean> {
     if (!isBcryptHash(hash)) {
         // Fallback: direct comparison for un-migrated configs
@@ -362,3 +553,27 @@ export async function verifyUsername(plaintext: string, hash: string): Promise<b
     }
     return bcrypt.compare(plaintext, hash);
 }
+
+/**
+ * Updates only the affinity field in config.json without touching any other values.
+ */
+export function updateAffinityConfig(affinity: AffinityConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.affinity = affinity;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
+
+/**
+ * Updates only the modelAvailability field in config.json without touching any other values.
+ */
+export function updateModelAvailabilityConfig(modelAvailability: ModelAvailabilityConfig): void {
+    if (!fs.existsSync(CONFIG_PATH)) {
+        throw new Error('Config not found.');
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+    raw.modelAvailability = modelAvailability;
+    fs.writeFileSync(CONFIG_PATH, JSON.stringify(raw, null, 2), 'utf-8');
+}
@@ -3,6 +3,19 @@
  * Both Firebase Firestore and the local JSON file backend implement this.
  */
 
+import type { ErrorCategory } from './error-classifier';
+
+/**
+ * Outcome of a logged request beyond success/failure: `cancelled` means the client
+ * disconnected first, `cache_hit` that the response was served from the response cache,
+ * `coalesced` that it shared the upstream call of an identical concurrent request.
+ */
+export type RequestStatus = 'cancelled' | 'cache_hit' | 'coalesced';
+/** How the rotation loops order the ready accounts (see account-selection.ts). */
+export type SelectionStrategy = 'least-recently-used' | 'round-robin' | 'least-in-flight' | 'weighted' | 'pro-first' | 'random-weighted';
+/** Per-request routing controls an API key may set through `X-OpenGem-*` headers. */
+export type RoutingOverride = 'fallback' | 'maxAttempts' | 'timeout' | 'preferPro' | 'account';
+
 export interface RequestLog {
     id?: string;
     accountEmail: string;
@@ -11,6 +24,10 @@ export interface RequestLog {
     systemInstruction?: string;
     model?: string;
     isFallback?: boolean;
+    /** Outcomes that are neither a plain success nor a failure; absent otherwise. */
+    status?: RequestStatus;
+    /** Selection strategy that put the account first in line; 'affinity' when a pinned session did. */
+    selectedBy?: SelectionStrategy | 'affinity';
     tokensUsed: number;
     success: boolean;
     timestamp: Date | number;
@@ -27,6 +44,10 @@ export interface Account {
     lastUsedAt: Date | number;
     isPro?: boolean;
     tierName?: string;
+    /** Manual weight for the weighted selection strategies; 1 if absent, 0 makes the account a last resort. */
+    weight?: number;
+    /** Pools the account serves; absent or empty means the default pool. */
+    pools?: string[];
     exhaustedAt?: Date | number;
     createdAt?: Date | number;
     updatedAt?: Date | number;
@@ -43,6 +64,71 @@ export interface ApiKey {
     createdAt: Date | number;
     lastUsedAt?: Date | number;
     totalRequests?: number;
+    /** Per-key override of the global response cache switch; absent follows the global setting. */
+    cacheEnabled?: boolean;
+    /** Routing headers this key may use; absent or empty allows none. */
+    routingOverrides?: RoutingOverride[];
+    /** Pools the key draws accounts from; absent or empty means the default pool. */
+    pools?: string[];
+}
+
+/** An account's cooldown, persisted so a restart does not forget it (see account-cooldown.ts). */
+export interface AccountCooldown {
+    email: string;
+    reason: ErrorCategory;
+    failureCount: number;
+    /** Epoch ms when the cooldown expires. */
+    cooldownUntil: number;
+    lastProbeAt?: number;
+}
+
+/** A named group of accounts that API keys can be bound to. */
+export interface AccountPool {
+    name: string;
+    description?: string;
+    createdAt: Date | number;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface BatchJob {
+    id: string;
+    model: string;
+    status: BatchJobStatus;
+    /** SHA-256 of the API key that submitted the job — only that key may read or cancel it. */
+    apiKeyHash: string;
+    /** Pools of the submitting key, captured at submission; absent means the default pool. */
+    pools?: string[];
+    totalRequests: number;
+    completedRequests: number;
+    failedRequests: number;
+    createdAt: Date | number;
+    updatedAt?: Date | number;
+    startedAt?: Date | number;
+    completedAt?: Date | number;
+}
+
+export interface BatchItem {
+    index: number;
+    /** Client-supplied correlation key (defaults to the line number). */
+    key: string;
+    request: any;
+    status: 'pending' | 'succeeded' | 'failed';
+    attempts: number;
+    response?: any;
+    error?: string;
+}
+
+/** A stored generateContent response, keyed by the normalised request hash. */
+export interface CachedResponse {
+    key: string;
+    /** Model that actually produced the response (may be a fallback). */
+    model: string;
+    accountEmail: string;
+    response: any;
+    tokensUsed: number;
+    createdAt: Date | number;
+    expiresAt: Date | number;
 }
 
 export interface DbStats {
@@ -50,6 +136,8 @@ export interface DbStats {
     successfulRequests: number;
     failedRequests: number;
     totalTokensUsed: number;
+    /** Requests answered from the response cache — they never reach an account. */
+    cacheHits: number;
     activeAccounts: number;
     totalAccounts: number;
     accountStats: Array<{
@@ -73,15 +161,44 @@ export interface IDatabase {
     reactivateAccount(email: string): Promise<void>;
     deleteAccount(idOrEmail: string): Promise<void>;
 
+    getAccountCooldowns(): Promise<AccountCooldown[]>;
+    /** Creates or replaces the cooldown of `cooldown.email`. */
+    setAccountCooldown(cooldown: AccountCooldown): Promise<void>;
+    deleteAccountCooldown(email: string): Promise<void>;
+
     createApiKey(name: string, key: string): Promise<ApiKey>;
     getAllApiKeys(): Promise<ApiKey[]>;
-    validateApiKey(key: string): Promise<boolean>;
+    /** Returns the matching key (masked, with its settings) and bumps its usage, or null if unknown. */
+    validateApiKey(key: string): Promise<ApiKey | null>;
+    /** `cacheEnabled: null` removes the override so the key follows the global setting again. */
+    updateApiKey(id: string, data: { name?: string; cacheEnabled?: boolean | null; routingOverrides?: RoutingOverride[]; pools?: string[] }): Promise<void>;
     deleteApiKey(id: string): Promise<void>;
 
+    getAccountPools(): Promise<AccountPool[]>;
+    /** Creates the pool, or updates its description if it exists. */
+    upsertAccountPool(pool: AccountPool): Promise<void>;
+    deleteAccountPool(name: string): Promise<void>;
+
     addRequestLog(log: Omit<RequestLog, 'id'>): Promise<void>;
     getRecentLogs(limit?: number): Promise<RequestLog[]>;
 
     getStats(): Promise<DbStats>;
+    incrementCacheHits(): Promise<void>;
+
+    getCachedResponse(key: string): Promise<CachedResponse | null>;
+    setCachedResponse(entry: CachedResponse): Promise<void>;
+    /** Drops expired entries, then the oldest ones until at most `maxEntries` remain. */
+    pruneCachedResponses(maxEntries: number): Promise<void>;
+    /** Removes every cached response; returns how many were removed. */
+    clearCachedResponses(): Promise<number>;
+
+    createBatchJob(job: BatchJob, items: BatchItem[]): Promise<void>;
+    getBatchJob(id: string): Promise<BatchJob | null>;
+    getAllBatchJobs(): Promise<BatchJob[]>;
+    updateBatchJob(id: string, data: Partial<BatchJob>): Promise<void>;
+    getBatchItems(jobId: string): Promise<BatchItem[]>;
+    updateBatchItem(jobId: string, index: number, data: Partial<BatchItem>): Promise<void>;
+    deleteBatchJob(id: string): Promise<void>;
 }
 
 // ---- Factory -----------------------------------------------------------------
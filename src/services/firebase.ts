@@ -14,10 +14,11 @@ import {
     limit as firestoreLimit,
     increment,
     deleteField,
+    writeBatch,
     Firestore
 } from 'firebase/firestore';
 import { getConfig, encrypt, decrypt } from './config';
-import type { IDatabase, Account, ApiKey, RequestLog, DbStats } from './database';
+import type { IDatabase, Account, ApiKey, RequestLog, DbStats, BatchJob, BatchItem, CachedResponse, RoutingOverride, AccountPool, AccountCooldown } from './database';
 import crypto from 'crypto';
 
 // Polyfill fetch for Firebase if needed (especially for Node.js environments lacking global fetch)
@@ -47,6 +48,16 @@ function getDb(): Firestore {
 const ACCOUNTS_COLLECTION = 'accounts';
 const LOGS_COLLECTION = 'request_logs';
 const API_KEYS_COLLECTION = 'api_keys';
+const ACCOUNT_POOLS_COLLECTION = 'account_pools';
+const COOLDOWNS_COLLECTION = 'account_cooldowns';
+const BATCH_JOBS_COLLECTION = 'batch_jobs';
+const BATCH_ITEMS_SUBCOLLECTION = 'items';
+const RESPONSE_CACHE_COLLECTION = 'response_cache';
+const COUNTERS_COLLECTION = 'counters';
+const GLOBAL_COUNTERS_DOC = 'global';
+// Firestore caps a write batch at 500 operations and a commit at 10 MiB; stay well below both since items can be large
+const BATCH_WRITE_CHUNK = 200;
+const BATCH_WRITE_MAX_BYTES = 8 * 1024 * 1024;
 
 // Secure one-way hash for API key storage
 function hashApiKey(key: string): string {
@@ -66,6 +77,76 @@ function sanitize(obj: Record<string, any>): Record<string, any> {
     return out;
 }
 
+function toDate(val: any): Date | undefined {
+    if (!val) return undefined;
+    return val.toDate ? val.toDate() : new Date(val);
+}
+
+function deserializeBatchJob(id: string, data: any): BatchJob {
+    return {
+        ...data,
+        id,
+        createdAt: toDate(data.createdAt) ?? new Date(0),
+        updatedAt: toDate(data.updatedAt),
+        startedAt: toDate(data.startedAt),
+        completedAt: toDate(data.completedAt),
+    } as BatchJob;
+}
+
+/** Batch requests and responses are stored as JSON text, like cached responses: Firestore rejects nested arrays. */
+function serializeBatchItem(data: Partial<BatchItem>): Record<string, any> {
+    return sanitize({
+        ...data,
+        ...(data.request !== undefined && { request: JSON.stringify(data.request) }),
+        ...(data.response !== undefined && { response: JSON.stringify(data.response) }),
+    });
+}
+
+function deserializeBatchItem(data: any): BatchItem {
+    return {
+        ...data,
+        request: JSON.parse(data.request),
+        response: typeof data.response === 'string' ? JSON.parse(data.response) : undefined,
+        error: data.error ?? undefined,
+    } as BatchItem;
+}
+
+/** Splits serialized items into write batches that fit Firestore's per-commit limits. */
+function chunkBatchItems(items: Record<string, any>[]): Record<string, any>[][] {
+    const chunks: Record<string, any>[][] = [];
+    let chunk: Record<string, any>[] = [];
+    let bytes = 0;
+    for (const item of items) {
+        const size = Buffer.byteLength(item.request);
+        if (chunk.length && (chunk.length >= BATCH_WRITE_CHUNK || bytes + size > BATCH_WRITE_MAX_BYTES)) {
+            chunks.push(chunk);
+            chunk = [];
+            bytes = 0;
+        }
+        chunk.push(item);
+        bytes += size;
+    }
+    if (chunk.length) chunks.push(chunk);
+    return chunks;
+}
+
+function toMaskedApiKey(id: string, data: any): ApiKey {
+    const maskedKey = data.keyPrefix
+        ? (data.keyPrefix + '\u2022'.repeat(36))
+        : (data.key ? data.key.substring(0, 7) + '\u2022'.repeat(36) : '\u2022'.repeat(43));
+    return {
+        id,
+        name: data.name,
+        key: maskedKey,
+        createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+        lastUsedAt: data.lastUsedAt?.toDate ? data.lastUsedAt.toDate() : data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+        totalRequests: data.totalRequests || 0,
+        ...(typeof data.cacheEnabled === 'boolean' && { cacheEnabled: data.cacheEnabled }),
+        ...(Array.isArray(data.routingOverrides) && data.routingOverrides.length && { routingOverrides: data.routingOverrides }),
+        ...(Array.isArray(data.pools) && data.pools.length && { pools: data.pools }),
+    };
+}
+
 // Re-export types for any existing code that imported from firebase.ts
 export type { Account, ApiKey, RequestLog, DbStats };
 
@@ -214,24 +295,13 @@ export const firebaseDb: IDatabase = {
         const keys: ApiKey[] = [];
 
         snapshot.forEach(docSnap => {
-            const data = docSnap.data();
-            const maskedKey = data.keyPrefix
-                ? (data.keyPrefix + '\u2022'.repeat(36))
-                : (data.key ? data.key.substring(0, 7) + '\u2022'.repeat(36) : '\u2022'.repeat(43));
-            keys.push({
-                id: docSnap.id,
-                name: data.name,
-                key: maskedKey,
-                createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-                lastUsedAt: data.lastUsedAt?.toDate ? data.lastUsedAt.toDate() : data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
-                totalRequests: data.totalRequests || 0
-            });
+            keys.push(toMaskedApiKey(docSnap.id, docSnap.data()));
         });
 
         return keys.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     },
 
-    async validateApiKey(key: string): Promise<boolean> {
+    async validateApiKey(key: string): Promise<ApiKey | null> {
         const keysRef = collection(getDb(), API_KEYS_COLLECTION);
         const keyHash = hashApiKey(key);
 
@@ -254,9 +324,9 @@ export const firebaseDb: IDatabase = {
                     lastUsedAt: new Date(),
                     totalRequests: increment(1)
                 }, { merge: true });
-                return true;
+                return toMaskedApiKey(docSnap.id, { ...docSnap.data(), keyPrefix: key.substring(0, 7) });
             }
-            return false;
+            return null;
         }
 
         const docSnap = snapshot.docs[0];
@@ -264,7 +334,14 @@ export const firebaseDb: IDatabase = {
             lastUsedAt: new Date(),
             totalRequests: increment(1)
         }, { merge: true });
-        return true;
+        return toMaskedApiKey(docSnap.id, docSnap.data());
+    },
+
+    async updateApiKey(id: string, data: { name?: string; cacheEnabled?: boolean | null; routingOverrides?: RoutingOverride[]; pools?: string[] }): Promise<void> {
+        const docRef = doc(getDb(), API_KEYS_COLLECTION, id);
+        const update: any = { ...data };
+        if (data.cacheEnabled === null) update.cacheEnabled = deleteField();
+        await setDoc(docRef, update, { merge: true });
     },
 
     async deleteApiKey(id: string): Promise<void> {
@@ -272,6 +349,56 @@ export const firebaseDb: IDatabase = {
         await deleteDoc(docRef);
     },
 
+    // --- ACCOUNT COOLDOWNS ---
+
+    async getAccountCooldowns(): Promise<AccountCooldown[]> {
+        const snapshot = await getDocs(collection(getDb(), COOLDOWNS_COLLECTION));
+        const cooldowns: AccountCooldown[] = [];
+        snapshot.forEach(docSnap => {
+            const { reason, failureCount, cooldownUntil, lastProbeAt } = docSnap.data();
+            cooldowns.push({ email: docSnap.id, reason, failureCount, cooldownUntil, ...(lastProbeAt && { lastProbeAt }) });
+        });
+        return cooldowns;
+    },
+
+    async setAccountCooldown(cooldown: AccountCooldown): Promise<void> {
+        const { email, ...state } = cooldown;
+        await setDoc(doc(getDb(), COOLDOWNS_COLLECTION, email), sanitize(state)); // Using email as ID
+    },
+
+    async deleteAccountCooldown(email: string): Promise<void> {
+        await deleteDoc(doc(getDb(), COOLDOWNS_COLLECTION, email));
+    },
+
+    // --- ACCOUNT POOLS ---
+
+    async getAccountPools(): Promise<AccountPool[]> {
+        const snapshot = await getDocs(collection(getDb(), ACCOUNT_POOLS_COLLECTION));
+        const pools: AccountPool[] = [];
+        snapshot.forEach(docSnap => {
+            const data = docSnap.data();
+            pools.push({
+                name: docSnap.id,
+                ...(data.description && { description: data.description }),
+                createdAt: toDate(data.createdAt) ?? new Date(0),
+            });
+        });
+        return pools.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async upsertAccountPool(pool: AccountPool): Promise<void> {
+        const docRef = doc(getDb(), ACCOUNT_POOLS_COLLECTION, pool.name); // Using the name as ID
+        const existing = await getDoc(docRef);
+        await setDoc(docRef, sanitize({
+            description: pool.description,
+            ...(!existing.exists() && { createdAt: pool.createdAt }),
+        }), { merge: true });
+    },
+
+    async deleteAccountPool(name: string): Promise<void> {
+        await deleteDoc(doc(getDb(), ACCOUNT_POOLS_COLLECTION, name));
+    },
+
     // --- REQUEST LOGGING ---
 
     async addRequestLog(log: Omit<RequestLog, 'id'>): Promise<void> {
@@ -284,6 +411,8 @@ export const firebaseDb: IDatabase = {
             ...(log.systemInstruction && { systemInstruction: log.systemInstruction }),
             ...(log.model && { model: log.model }),
             ...(log.isFallback !== undefined && { isFallback: log.isFallback }),
+            ...(log.status && { status: log.status }),
+            ...(log.selectedBy && { selectedBy: log.selectedBy }),
             tokensUsed: log.tokensUsed,
             success: log.success ?? true, // default to true if undefined for older code
             timestamp: new Date()
@@ -305,6 +434,8 @@ export const firebaseDb: IDatabase = {
                 ...(data.systemInstruction && { systemInstruction: data.systemInstruction }),
                 ...(data.model && { model: data.model }),
                 ...(data.isFallback !== undefined && { isFallback: data.isFallback }),
+                ...(data.status && { status: data.status }),
+                ...(data.selectedBy && { selectedBy: data.selectedBy }),
                 tokensUsed: data.tokensUsed || 0,
                 success: data.success,
                 timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : new Date(data.timestamp)
@@ -316,24 +447,11 @@ export const firebaseDb: IDatabase = {
         return logs.slice(0, limitCount);
     },
 
-    async getStats(): Promise<{
-        totalRequests: number;
-        successfulRequests: number;
-        failedRequests: number;
-        totalTokensUsed: number;
-        activeAccounts: number;
-        totalAccounts: number;
-        accountStats: Array<{
-            email: string;
-            totalRequests: number;
-            successfulRequests: number;
-            failedRequests: number;
-            totalTokensUsed: number;
-            isActive: boolean;
-            isPro?: boolean;
-        }>;
-    }> {
-        const accounts = await this.getAllAccounts();
+    async getStats(): Promise<DbStats> {
+        const [accounts, countersSnap] = await Promise.all([
+            this.getAllAccounts(),
+            getDoc(doc(getDb(), COUNTERS_COLLECTION, GLOBAL_COUNTERS_DOC)),
+        ]);
 
         let totalRequests = 0;
         let successfulRequests = 0;
@@ -369,10 +487,130 @@ export const firebaseDb: IDatabase = {
             successfulRequests,
             failedRequests,
             totalTokensUsed,
+            cacheHits: countersSnap.data()?.cacheHits || 0,
             activeAccounts,
             totalAccounts: accounts.length,
             accountStats
         };
+    },
+
+    async incrementCacheHits(): Promise<void> {
+        const docRef = doc(getDb(), COUNTERS_COLLECTION, GLOBAL_COUNTERS_DOC);
+        await setDoc(docRef, { cacheHits: increment(1) }, { merge: true });
+    },
+
+    // --- RESPONSE CACHE ---
+
+    async getCachedResponse(key: string): Promise<CachedResponse | null> {
+        const docSnap = await getDoc(doc(getDb(), RESPONSE_CACHE_COLLECTION, key));
+        if (!docSnap.exists()) return null;
+        const data = docSnap.data();
+        return {
+            ...data,
+            key,
+            // Stored as JSON text: Firestore rejects nested arrays, which tool schemas may contain
+            response: JSON.parse(data.response),
+            createdAt: toDate(data.createdAt) ?? new Date(0),
+            expiresAt: toDate(data.expiresAt) ?? new Date(0),
+        } as CachedResponse;
+    },
+
+    async setCachedResponse(entry: CachedResponse): Promise<void> {
+        const docRef = doc(getDb(), RESPONSE_CACHE_COLLECTION, entry.key);
+        await setDoc(docRef, sanitize({ ...entry, response: JSON.stringify(entry.response) }));
+    },
+
+    async pruneCachedResponses(maxEntries: number): Promise<void> {
+        const snapshot = await getDocs(collection(getDb(), RESPONSE_CACHE_COLLECTION));
+        const now = Date.now();
+        const byAge = [...snapshot.docs].sort((a, b) =>
+            (toDate(b.data().createdAt)?.getTime() ?? 0) - (toDate(a.data().createdAt)?.getTime() ?? 0)
+        );
+        const stale = byAge.filter((docSnap, i) =>
+            i >= maxEntries || (toDate(docSnap.data().expiresAt)?.getTime() ?? 0) <= now
+        );
+        for (let start = 0; start < stale.length; start += BATCH_WRITE_CHUNK) {
+            const batch = writeBatch(getDb());
+            for (const docSnap of stale.slice(start, start + BATCH_WRITE_CHUNK)) batch.delete(docSnap.ref);
+            await batch.commit();
+        }
+    },
+
+    async clearCachedResponses(): Promise<number> {
+        const snapshot = await getDocs(collection(getDb(), RESPONSE_CACHE_COLLECTION));
+        for (let start = 0; start < snapshot.docs.length; start += BATCH_WRITE_CHUNK) {
+            const batch = writeBatch(getDb());
+            for (const docSnap of snapshot.docs.slice(start, start + BATCH_WRITE_CHUNK)) batch.delete(docSnap.ref);
+            await batch.commit();
+        }
+        return snapshot.docs.length;
+    },
+
+    // --- BATCH JOBS ---
+
+    async createBatchJob(job: BatchJob, items: BatchItem[]): Promise<void> {
+        const jobRef = doc(getDb(), BATCH_JOBS_COLLECTION, job.id);
+        // Items go first and the job document last: the worker finds jobs through their
+        // document, so an upload that fails part-way never leaves a job with missing items
+        const written: Record<string, any>[] = [];
+        try {
+            for (const chunk of chunkBatchItems(items.map(serializeBatchItem))) {
+                const batch = writeBatch(getDb());
+                for (const item of chunk) batch.set(doc(jobRef, BATCH_ITEMS_SUBCOLLECTION, String(item.index)), item);
+                await batch.commit();
+                written.push(...chunk);
+            }
+            await setDoc(jobRef, sanitize({ ...job, updatedAt: new Date() }));
+        } catch (err) {
+            for (let start = 0; start < written.length; start += BATCH_WRITE_CHUNK) {
+                const batch = writeBatch(getDb());
+                for (const item of written.slice(start, start + BATCH_WRITE_CHUNK)) batch.delete(doc(jobRef, BATCH_ITEMS_SUBCOLLECTION, String(item.index)));
+                await batch.commit().catch(cleanupErr => console.error(`Failed to clean up items of batch job ${job.id}:`, cleanupErr));
+            }
+            throw err;
+        }
+    },
+
+    async getBatchJob(id: string): Promise<BatchJob | null> {
+        const docSnap = await getDoc(doc(getDb(), BATCH_JOBS_COLLECTION, id));
+        return docSnap.exists() ? deserializeBatchJob(docSnap.id, docSnap.data()) : null;
+    },
+
+    async getAllBatchJobs(): Promise<BatchJob[]> {
+        const snapshot = await getDocs(collection(getDb(), BATCH_JOBS_COLLECTION));
+        const jobs: BatchJob[] = [];
+        snapshot.forEach(docSnap => jobs.push(deserializeBatchJob(docSnap.id, docSnap.data())));
+        return jobs.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    },
+
+    async updateBatchJob(id: string, data: Partial<BatchJob>): Promise<void> {
+        const docRef = doc(getDb(), BATCH_JOBS_COLLECTION, id);
+        await setDoc(docRef, sanitize({ ...data, updatedAt: new Date() }), { merge: true });
+    },
+
+    async getBatchItems(jobId: string): Promise<BatchItem[]> {
+        const itemsRef = collection(getDb(), BATCH_JOBS_COLLECTION, jobId, BATCH_ITEMS_SUBCOLLECTION);
+        const snapshot = await getDocs(itemsRef);
+        const items: BatchItem[] = [];
+        snapshot.forEach(docSnap => items.push(deserializeBatchItem(docSnap.data())));
+        return items.sort((a, b) => a.index - b.index);
+    },
+
+    async updateBatchItem(jobId: string, index: number, data: Partial<BatchItem>): Promise<void> {
+        const docRef = doc(getDb(), BATCH_JOBS_COLLECTION, jobId, BATCH_ITEMS_SUBCOLLECTION, String(index));
+        await setDoc(docRef, serializeBatchItem(data), { merge: true });
+    },
+
+    async deleteBatchJob(id: string): Promise<void> {
+        const jobRef = doc(getDb(), BATCH_JOBS_COLLECTION, id);
+        // Firestore does not cascade deletes — remove the items subcollection first
+        const snapshot = await getDocs(collection(jobRef, BATCH_ITEMS_SUBCOLLECTION));
+        for (let start = 0; start < snapshot.docs.length; start += BATCH_WRITE_CHUNK) {
+            const batch = writeBatch(getDb());
+            for (const docSnap of snapshot.docs.slice(start, start + BATCH_WRITE_CHUNK)) batch.delete(docSnap.ref);
+            await batch.commit();
+        }
+        await deleteDoc(jobRef);
     }
 };
 
@@ -2,6 +2,7 @@ import crypto from 'crypto';
 
 import { nativeFetch } from './http';
 import { isConfigured, getConfig } from './config';
+import type { RoutingRule } from './config';
 
 export const GEMINI_CLI_CREDENTIALS = {
     clientId: '681255809395-oo8ft2oprdrnp9e3aqf6av3hmdib135j.apps.googleusercontent.com',
@@ -14,6 +15,10 @@ export const DEFAULT_MODEL = 'gemini-3-flash-preview';      // Primary model (ha
 export const FALLBACK_MODEL = 'gemini-3-pro-preview';        // First fallback (hardcoded default)
 export const FALLBACK_MODEL_V2 = 'gemini-3.1-pro-preview';  // Second fallback (hardcoded default)
 
+// Gemini 3 rejects replayed function calls without a thought signature. Signatures cannot
+// survive a round-trip through foreign protocols, so adapters use this documented bypass value.
+export const SKIP_THOUGHT_SIGNATURE = 'skip_thought_signature_validator';
+
 // --- Dynamic model getters (read from config, fallback to hardcoded defaults) ---
 
 
@@ -38,6 +43,62 @@ export function getSecondFallbackModel(): string {
     return FALLBACK_MODEL_V2;
 }
 
+export function getCustomModels(): string[] {
+    try {
+        if (isConfigured()) {
+            const config = getConfig();
+            if (Array.isArray(config.models?.custom)) return config.models.custom;
+        }
+    } catch { /* fallback to default */ }
+    return [];
+}
+
+export function getFallbackChains(): Record<string, string[]> {
+    try {
+        if (isConfigured()) {
+            const config = getConfig();
+            if (config.models?.chains) return config.models.chains;
+        }
+    } catch { /* fallback to default */ }
+    return {};
+}
+
+/**
+ * Models to try, in order, after `model` is rate limited on an account: its own chain
+ * if one is configured, otherwise the default fallback → fallbackV2 ladder. A model
+ * that appears in its chain only falls back to the models listed after it.
+ */
+export function getFallbackChain(model: string): string[] {
+    const chain = getFallbackChains()[model] ?? [getFirstFallbackModel(), getSecondFallbackModel()];
+    const position = chain.indexOf(model);
+    return [...new Set(position === -1 ? chain : chain.slice(position + 1))].filter(m => m && m !== model);
+}
+
+export function getModelAliases(): Record<string, string> {
+    try {
+        if (isConfigured()) {
+            const config = getConfig();
+            if (config.models?.aliases) return config.models.aliases;
+        }
+    } catch { /* fallback to default */ }
+    return {};
+}
+
+export function getRoutingRules(): RoutingRule[] {
+    try {
+        if (isConfigured()) {
+            const config = getConfig();
+            if (Array.isArray(config.models?.routes)) return config.models.routes;
+        }
+    } catch { /* fallback to default */ }
+    return [];
+}
+
+/** All model names the gateway advertises: default, fallback chain, admin-defined models, then aliases. */
+export function getModelCatalog(): string[] {
+    return [...new Set([DEFAULT_MODEL, getFirstFallbackModel(), getSecondFallbackModel(), ...getCustomModels(), ...Object.keys(getModelAliases())])];
+}
+
 export const OAUTH_CONFIG = {
     clientId: GEMINI_CLI_CREDENTIALS.clientId,
     clientSecret: GEMINI_CLI_CREDENTIALS.clientSecret,
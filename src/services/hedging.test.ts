@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { raceWithHedge, Attempt } from './hedging';
+import type { HedgingConfig } from './config';
+
+// Every request earns a full hedge, so the budget never gets in the way
+const config: HedgingConfig = { enabled: true, delayMs: 20, percentile: 0, budgetPercent: 100 };
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(r => setTimeout(r, ms));
+}
+
+/** An attempt that answers after `ms` unless its signal aborts first; records that abort. */
+function attempt(ms: number, answer: string | null, log: { aborted?: boolean } = {}): Attempt<string> {
+    return signal => new Promise(resolve => {
+        const timer = setTimeout(() => resolve(answer), ms);
+        signal.addEventListener('abort', () => {
+            log.aborted = true;
+            clearTimeout(timer);
+            resolve(null);
+        }, { once: true });
+    });
+}
+
+test('a primary that answers within the delay is never hedged', async () => {
+    let hedges = 0;
+    const result = await raceWithHedge(attempt(5, 'primary'), () => { hedges++; return attempt(5, 'hedge'); }, undefined, config);
+    assert.equal(result, 'primary');
+    await sleep(config.delayMs * 2);
+    assert.equal(hedges, 0);
+});
+
+test('a slow primary is hedged, and the first answer wins and aborts the other call', async () => {
+    const primary: { aborted?: boolean } = {};
+    const result = await raceWithHedge(attempt(500, 'primary', primary), () => attempt(5, 'hedge'), undefined, config);
+    assert.equal(result, 'hedge');
+    assert.equal(primary.aborted, true);
+});
+
+test('a failed hedge leaves the primary to answer', async () => {
+    const result = await raceWithHedge(attempt(60, 'primary'), () => attempt(5, null), undefined, config);
+    assert.equal(result, 'primary');
+});
+
+test('resolves null once every started attempt has failed', async () => {
+    const result = await raceWithHedge(attempt(40, null), () => attempt(5, null), undefined, config);
+    assert.equal(result, null);
+});
+
+test('no hedge starts when no account can take it', async () => {
+    const result = await raceWithHedge(attempt(40, 'primary'), () => null, undefined, config);
+    assert.equal(result, 'primary');
+});
+
+test('no hedge starts after the caller aborted, and the primary is aborted with it', async () => {
+    const caller = new AbortController();
+    const primary: { aborted?: boolean } = {};
+    let hedges = 0;
+    const race = raceWithHedge(attempt(500, 'primary', primary), () => { hedges++; return attempt(5, 'hedge'); }, caller.signal, config);
+    caller.abort();
+    assert.equal(await race, null);
+    assert.equal(primary.aborted, true);
+    await sleep(config.delayMs * 2);
+    assert.equal(hedges, 0);
+});
+
+test('hedging off runs the primary alone', async () => {
+    let hedges = 0;
+    const result = await raceWithHedge(attempt(60, 'primary'), () => { hedges++; return attempt(5, 'hedge'); }, undefined, { ...config, enabled: false });
+    assert.equal(result, 'primary');
+    assert.equal(hedges, 0);
+});
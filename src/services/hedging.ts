@@ -0,0 +1,153 @@
+/**
+ * Hedged requests for non-streaming generation.
+ *
+ * Tail latency is dominated by the occasional slow account. When the first account
+ * has not answered within the hedge delay, the same request is also sent to a
+ * second ready account; the first answer wins and the other call is aborted. The
+ * delay is a fixed threshold or a percentile of recently observed answer
+ * latencies, and a budget limits hedges to a share of requests so they cannot
+ * double quota use.
+ */
+
+import { getConfig, isConfigured, HedgingConfig } from './config';
+import { geminiRequestSemaphore } from './concurrency';
+
+export const DEFAULT_HEDGING_CONFIG: HedgingConfig = {
+    enabled: false,
+    delayMs: 5_000,
+    percentile: 0,
+    budgetPercent: 10,
+};
+
+const LATENCY_WINDOW = 200;
+const MIN_LATENCY_SAMPLES = 20;
+// A learned delay this short would hedge on ordinary jitter
+const MIN_HEDGE_DELAY_MS = 250;
+// Unused budget accrues up to this many hedges, so a quiet spell cannot bank a burst
+const MAX_BUDGET_TOKENS = 10;
+
+/** One call on one account. Resolves to null if it failed or its signal aborted. */
+export type Attempt<T> = (signal: AbortSignal) => Promise<T | null>;
+
+const latencies: number[] = [];
+let budgetTokens = 0;
+const counters = { requests: 0, hedged: 0, won: 0 };
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getHedgingConfig(): HedgingConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_HEDGING_CONFIG, ...getConfig().hedging };
+    } catch { /* fallback to default */ }
+    return DEFAULT_HEDGING_CONFIG;
+}
+
+/** Validates hedging settings sent by the admin API; omitted fields keep their current values. */
+export function parseHedgingConfig(input: any): HedgingConfig | { error: string } {
+    const { enabled, delayMs, percentile, budgetPercent } = { ...getHedgingConfig(), ...input };
+    if (typeof enabled !== 'boolean') return { error: 'enabled must be a boolean.' };
+    if (!Number.isInteger(delayMs) || delayMs < MIN_HEDGE_DELAY_MS) {
+        return { error: `delayMs must be an integer of at least ${MIN_HEDGE_DELAY_MS}.` };
+    }
+    if (typeof percentile !== 'number' || percentile < 0 || percentile >= 100) {
+        return { error: 'percentile must be 0 (fixed delay) or between 0 and 100.' };
+    }
+    if (typeof budgetPercent !== 'number' || budgetPercent <= 0 || budgetPercent > 100) {
+        return { error: 'budgetPercent must be greater than 0 and at most 100.' };
+    }
+    return { enabled, delayMs, percentile, budgetPercent };
+}
+
+// ─── Latency & budget ────────────────────────────────────────────────────────
+
+function recordLatency(ms: number): void {
+    latencies.push(ms);
+    if (latencies.length > LATENCY_WINDOW) latencies.shift();
+}
+
+/** How long to wait for the first account before hedging. */
+export function hedgeDelayMs(config: HedgingConfig = getHedgingConfig()): number {
+    if (config.percentile <= 0 || latencies.length < MIN_LATENCY_SAMPLES) return config.delayMs;
+    const sorted = [...latencies].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((config.percentile / 100) * sorted.length) - 1);
+    return Math.max(MIN_HEDGE_DELAY_MS, sorted[index]);
+}
+
+export function getHedgingStats() {
+    return {
+        ...counters,
+        delayMs: hedgeDelayMs(),
+        latencySamples: latencies.length,
+        budget: Math.floor(budgetTokens),
+    };
+}
+
+// ─── Racing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Runs `primary` and, if it is still running after the hedge delay, the attempt
+ * returned by `startHedge` (which returns null when no account can take it).
+ * Resolves with the first non-null result and aborts the other attempt; resolves
+ * null once every started attempt has failed. Hedging is skipped while the
+ * request semaphore has waiters or the budget is spent.
+ */
+export function raceWithHedge<T>(
+    primary: Attempt<T>,
+    startHedge: () => Attempt<T> | null,
+    signal?: AbortSignal,
+    config: HedgingConfig = getHedgingConfig()
+): Promise<T | null> {
+    if (config.enabled) {
+        counters.requests++;
+        budgetTokens = Math.min(MAX_BUDGET_TOKENS, budgetTokens + config.budgetPercent / 100);
+    }
+
+    return new Promise(resolve => {
+        const controllers: AbortController[] = [];
+        let running = 0;
+        let settled = false;
+        let timer: NodeJS.Timeout | undefined;
+
+        const finish = (result: T | null) => {
+            settled = true;
+            clearTimeout(timer);
+            resolve(result);
+        };
+
+        const launch = (attempt: Attempt<T>, isHedge: boolean) => {
+            const controller = new AbortController();
+            controllers.push(controller);
+            running++;
+            const startedAt = Date.now();
+            attempt(signal ? AbortSignal.any([signal, controller.signal]) : controller.signal)
+                .catch(() => null)
+                .then(result => {
+                    running--;
+                    if (settled) return;
+                    if (result !== null) {
+                        recordLatency(Date.now() - startedAt);
+                        if (isHedge) {
+                            counters.won++;
+                            console.log('🏁 Hedge answered first.');
+                        }
+                        for (const other of controllers) if (other !== controller) other.abort();
+                        finish(result);
+                    } else if (running === 0) {
+                        finish(null);
+                    }
+                });
+        };
+
+        launch(primary, false);
+        if (!config.enabled) return;
+
+        timer = setTimeout(() => {
+            if (settled || signal?.aborted || budgetTokens < 1 || geminiRequestSemaphore.queueLength > 0) return;
+            const hedge = startHedge();
+            if (!hedge) return;
+            budgetTokens--;
+            counters.hedged++;
+            launch(hedge, true);
+        }, hedgeDelayMs(config));
+    });
+}
@@ -6,6 +6,8 @@ interface RequestOptions {
     method?: string;
     headers?: Record<string, string>;
     body?: string;
+    /** Aborting destroys the socket; the returned promise (or stream) errors with an AbortError. */
+    signal?: AbortSignal;
 }
 
 interface HttpResponse {
@@ -38,6 +40,7 @@ export function nativeFetchStream(url: string, options: RequestOptions = {}): Pr
             path: parsedUrl.pathname + parsedUrl.search,
             method: options.method || 'GET',
             headers,
+            signal: options.signal,
         };
 
         const req = lib.request(reqOptions, (res) => {
@@ -77,11 +80,13 @@ export function nativeFetch(url: string, options: RequestOptions = {}): Promise<
             path: parsedUrl.pathname + parsedUrl.search,
             method: options.method || 'GET',
             headers,
+            signal: options.signal,
         };
 
         const req = lib.request(reqOptions, (res) => {
             const chunks: Buffer[] = [];
 
+            res.on('error', (err) => reject(err)); // e.g. aborted mid-body
             res.on('data', (chunk: Buffer) => chunks.push(chunk));
             res.on('end', () => {
                 const bodyText = Buffer.concat(chunks).toString('utf-8');
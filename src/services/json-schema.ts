@@ -0,0 +1,60 @@
+/**
+ * JSON Schema helpers for the protocol adapters.
+ *
+ * Gemini only accepts an OpenAPI 3.0 subset of JSON Schema for function
+ * parameters and response schemas. OpenAI / Anthropic clients send full
+ * JSON Schema, so unsupported keywords are stripped before forwarding.
+ */
+
+const SUPPORTED_KEYWORDS = new Set([
+    'type',
+    'format',
+    'title',
+    'description',
+    'nullable',
+    'enum',
+    'items',
+    'minItems',
+    'maxItems',
+    'properties',
+    'required',
+    'propertyOrdering',
+    'minProperties',
+    'maxProperties',
+    'minLength',
+    'maxLength',
+    'pattern',
+    'minimum',
+    'maximum',
+    'anyOf',
+]);
+
+/**
+ * Convert a JSON Schema into the subset Gemini accepts.
+ * Handles `["string", "null"]` union types and `const`, drops everything else unsupported.
+ */
+export function toGeminiSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema;
+    if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+
+    const out: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'const') { out.enum = [value]; continue; }
+        if (!SUPPORTED_KEYWORDS.has(key)) continue;
+
+        if (key === 'type' && Array.isArray(value)) {
+            const types = value.filter(t => t !== 'null');
+            if (types.length < value.length) out.nullable = true;
+            out.type = types[0] ?? 'string';
+        } else if (key === 'properties' && value && typeof value === 'object') {
+            out.properties = Object.fromEntries(
+                Object.entries(value).map(([name, prop]) => [name, toGeminiSchema(prop)])
+            );
+        } else if (key === 'items' || key === 'anyOf') {
+            out[key] = toGeminiSchema(value);
+        } else {
+            out[key] = value;
+        }
+    }
+    return out;
+}
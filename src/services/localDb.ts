@@ -17,7 +17,7 @@ import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { encrypt, decrypt } from './config';
-import type { IDatabase, Account, ApiKey, RequestLog, DbStats } from './database';
+import type { IDatabase, Account, ApiKey, RequestLog, DbStats, BatchJob, BatchItem, CachedResponse, RoutingOverride, AccountPool, AccountCooldown } from './database';
 
 const DATA_DIR = path.join(__dirname, '../../data');
 const DB_PATH = path.join(DATA_DIR, 'db.json');
@@ -30,6 +30,16 @@ interface DbFile {
     accounts: Record<string, any>;
     apiKeys: Record<string, any>;
     logs: any[];
+    /** Account pools keyed by name. */
+    accountPools?: Record<string, any>;
+    /** Account cooldowns keyed by email. */
+    cooldowns?: Record<string, any>;
+    /** Batch jobs keyed by id; each entry holds the job fields plus its `items` array. */
+    batchJobs?: Record<string, any>;
+    /** Response cache entries keyed by request hash (only with the `database` cache storage). */
+    responseCache?: Record<string, any>;
+    /** Process-independent counters that don't belong to any account. */
+    counters?: { cacheHits?: number };
 }
 
 // --- In-memory cache ---
@@ -90,6 +100,26 @@ function flushNow(): void {
     flushToDisk();
 }
 
+function getBatchJobs(db: DbFile): Record<string, any> {
+    if (!db.batchJobs) db.batchJobs = {};
+    return db.batchJobs;
+}
+
+function getAccountPools(db: DbFile): Record<string, any> {
+    if (!db.accountPools) db.accountPools = {};
+    return db.accountPools;
+}
+
+function getCooldowns(db: DbFile): Record<string, any> {
+    if (!db.cooldowns) db.cooldowns = {};
+    return db.cooldowns;
+}
+
+function getResponseCache(db: DbFile): Record<string, any> {
+    if (!db.responseCache) db.responseCache = {};
+    return db.responseCache;
+}
+
 function hashApiKey(key: string): string {
     return crypto.createHash('sha256').update(key).digest('hex');
 }
@@ -113,6 +143,39 @@ function deserializeAccount(data: any): Account {
     } as Account;
 }
 
+function toIsoOrUndefined(val: any): string | undefined {
+    if (!val) return undefined;
+    return (val instanceof Date ? val : new Date(val)).toISOString();
+}
+
+function deserializeBatchJob(data: any): BatchJob {
+    const { items, ...job } = data;
+    return {
+        ...job,
+        createdAt: new Date(job.createdAt),
+        updatedAt: job.updatedAt ? new Date(job.updatedAt) : undefined,
+        startedAt: job.startedAt ? new Date(job.startedAt) : undefined,
+        completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+    } as BatchJob;
+}
+
+function toMaskedApiKey(k: any): ApiKey {
+    const masked = k.keyPrefix
+        ? k.keyPrefix + '•'.repeat(36)
+        : '•'.repeat(43);
+    return {
+        id: k.id,
+        name: k.name,
+        key: masked,
+        createdAt: new Date(k.createdAt),
+        lastUsedAt: k.lastUsedAt ? new Date(k.lastUsedAt) : undefined,
+        totalRequests: k.totalRequests || 0,
+        ...(typeof k.cacheEnabled === 'boolean' && { cacheEnabled: k.cacheEnabled }),
+        ...(Array.isArray(k.routingOverrides) && k.routingOverrides.length && { routingOverrides: k.routingOverrides }),
+        ...(Array.isArray(k.pools) && k.pools.length && { pools: k.pools }),
+    };
+}
+
 // --- Implementation ---
 
 export const localDb: IDatabase = {
@@ -232,6 +295,24 @@ export const localDb: IDatabase = {
         flushNow();
     },
 
+    // --- Account Cooldowns ---
+
+    async getAccountCooldowns(): Promise<AccountCooldown[]> {
+        return Object.values(getCooldowns(getCache())).map((c: any) => ({ ...c }));
+    },
+
+    async setAccountCooldown(cooldown: AccountCooldown): Promise<void> {
+        getCooldowns(getCache())[cooldown.email] = { ...cooldown };
+        scheduleFlush(); // High-frequency under 429 storms — debounce
+    },
+
+    async deleteAccountCooldown(email: string): Promise<void> {
+        const cooldowns = getCooldowns(getCache());
+        if (!(email in cooldowns)) return;
+        delete cooldowns[email];
+        scheduleFlush();
+    },
+
     // --- API Keys ---
 
     async createApiKey(name: string, key: string): Promise<ApiKey> {
@@ -253,23 +334,11 @@ export const localDb: IDatabase = {
     async getAllApiKeys(): Promise<ApiKey[]> {
         const db = getCache();
         return Object.values(db.apiKeys)
-            .map((k: any) => {
-                const masked = k.keyPrefix
-                    ? k.keyPrefix + '•'.repeat(36)
-                    : '•'.repeat(43);
-                return {
-                    id: k.id,
-                    name: k.name,
-                    key: masked,
-                    createdAt: new Date(k.createdAt),
-                    lastUsedAt: k.lastUsedAt ? new Date(k.lastUsedAt) : undefined,
-                    totalRequests: k.totalRequests || 0,
-                };
-            })
+            .map(toMaskedApiKey)
             .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     },
 
-    async validateApiKey(key: string): Promise<boolean> {
+    async validateApiKey(key: string): Promise<ApiKey | null> {
         const db = getCache();
         const keyHash = hashApiKey(key);
         const found = Object.values(db.apiKeys).find((k: any) => k.keyHash === keyHash) as any;
@@ -278,9 +347,18 @@ export const localDb: IDatabase = {
             db.apiKeys[id].lastUsedAt = new Date().toISOString();
             db.apiKeys[id].totalRequests = (db.apiKeys[id].totalRequests || 0) + 1;
             scheduleFlush(); // High-frequency — debounce
-            return true;
+            return toMaskedApiKey(db.apiKeys[id]);
         }
-        return false;
+        return null;
+    },
+
+    async updateApiKey(id: string, data: { name?: string; cacheEnabled?: boolean | null; routingOverrides?: RoutingOverride[]; pools?: string[] }): Promise<void> {
+        const db = getCache();
+        if (!db.apiKeys[id]) return;
+        const updated = { ...db.apiKeys[id], ...data };
+        if (data.cacheEnabled === null) delete updated.cacheEnabled;
+        db.apiKeys[id] = updated;
+        flushNow();
     },
 
     async deleteApiKey(id: string): Promise<void> {
@@ -289,6 +367,28 @@ export const localDb: IDatabase = {
         flushNow();
     },
 
+    // --- Account Pools ---
+
+    async getAccountPools(): Promise<AccountPool[]> {
+        return Object.values(getAccountPools(getCache()))
+            .map((p: any) => ({ ...p, createdAt: new Date(p.createdAt) }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async upsertAccountPool(pool: AccountPool): Promise<void> {
+        const pools = getAccountPools(getCache());
+        pools[pool.name] = {
+            ...pool,
+            createdAt: pools[pool.name]?.createdAt ?? toIsoOrUndefined(pool.createdAt),
+        };
+        flushNow();
+    },
+
+    async deleteAccountPool(name: string): Promise<void> {
+        delete getAccountPools(getCache())[name];
+        flushNow();
+    },
+
     // --- Request Logging ---
 
     async addRequestLog(log: Omit<RequestLog, 'id'>): Promise<void> {
@@ -301,6 +401,8 @@ export const localDb: IDatabase = {
             ...(log.systemInstruction && { systemInstruction: log.systemInstruction }),
             ...(log.model && { model: log.model }),
             ...(log.isFallback !== undefined && { isFallback: log.isFallback }),
+            ...(log.status && { status: log.status }),
+            ...(log.selectedBy && { selectedBy: log.selectedBy }),
             tokensUsed: log.tokensUsed,
             success: log.success ?? true,
             timestamp: new Date().toISOString(),
@@ -318,9 +420,17 @@ export const localDb: IDatabase = {
             .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
             .slice(0, limitCount)
             .map(l => ({
+                id: l.id,
+                accountEmail: l.accountEmail,
+                question: l.question,
+                answer: l.answer,
                 ...(l.systemInstruction && { systemInstruction: l.systemInstruction }),
                 ...(l.model && { model: l.model }),
                 ...(l.isFallback !== undefined && { isFallback: l.isFallback }),
+                ...(l.status && { status: l.status }),
+                ...(l.selectedBy && { selectedBy: l.selectedBy }),
+                tokensUsed: l.tokensUsed || 0,
+                success: l.success,
                 timestamp: new Date(l.timestamp),
             }));
     },
@@ -357,11 +467,110 @@ export const localDb: IDatabase = {
             successfulRequests,
             failedRequests,
             totalTokensUsed,
+            cacheHits: getCache().counters?.cacheHits || 0,
             activeAccounts,
             totalAccounts: allAccounts.length,
             accountStats,
         };
     },
+
+    async incrementCacheHits(): Promise<void> {
+        const db = getCache();
+        if (!db.counters) db.counters = {};
+        db.counters.cacheHits = (db.counters.cacheHits || 0) + 1;
+        scheduleFlush(); // High-frequency — debounce
+    },
+
+    // --- Response Cache ---
+
+    async getCachedResponse(key: string): Promise<CachedResponse | null> {
+        const entry = getResponseCache(getCache())[key];
+        if (!entry) return null;
+        return { ...entry, createdAt: new Date(entry.createdAt), expiresAt: new Date(entry.expiresAt) };
+    },
+
+    async setCachedResponse(entry: CachedResponse): Promise<void> {
+        getResponseCache(getCache())[entry.key] = {
+            ...entry,
+            createdAt: toIsoOrUndefined(entry.createdAt),
+            expiresAt: toIsoOrUndefined(entry.expiresAt),
+        };
+        scheduleFlush();
+    },
+
+    async pruneCachedResponses(maxEntries: number): Promise<void> {
+        const cache = getResponseCache(getCache());
+        const now = Date.now();
+        const live = Object.values(cache)
+            .filter((e: any) => new Date(e.expiresAt).getTime() > now)
+            .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+            .slice(0, Math.max(0, maxEntries));
+        getCache().responseCache = Object.fromEntries(live.map((e: any) => [e.key, e]));
+        scheduleFlush();
+    },
+
+    async clearCachedResponses(): Promise<number> {
+        const db = getCache();
+        const count = Object.keys(getResponseCache(db)).length;
+        db.responseCache = {};
+        flushNow();
+        return count;
+    },
+
+    // --- Batch Jobs ---
+
+    async createBatchJob(job: BatchJob, items: BatchItem[]): Promise<void> {
+        const db = getCache();
+        getBatchJobs(db)[job.id] = {
+            ...job,
+            createdAt: toIsoOrUndefined(job.createdAt),
+            updatedAt: new Date().toISOString(),
+            startedAt: toIsoOrUndefined(job.startedAt),
+            completedAt: toIsoOrUndefined(job.completedAt),
+            items,
+        };
+        flushNow(); // Structural write — flush immediately
+    },
+
+    async getBatchJob(id: string): Promise<BatchJob | null> {
+        const job = getBatchJobs(getCache())[id];
+        return job ? deserializeBatchJob(job) : null;
+    },
+
+    async getAllBatchJobs(): Promise<BatchJob[]> {
+        return Object.values(getBatchJobs(getCache()))
+            .map(deserializeBatchJob)
+            .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    },
+
+    async updateBatchJob(id: string, data: Partial<BatchJob>): Promise<void> {
+        const jobs = getBatchJobs(getCache());
+        if (!jobs[id]) return;
+        const update: any = { ...data, updatedAt: new Date().toISOString() };
+        if (data.startedAt) update.startedAt = toIsoOrUndefined(data.startedAt);
+        if (data.completedAt) update.completedAt = toIsoOrUndefined(data.completedAt);
+        jobs[id] = { ...jobs[id], ...update };
+        // Status transitions must survive a crash; progress counters can be debounced
+        if (data.status) flushNow();
+        else scheduleFlush();
+    },
+
+    async getBatchItems(jobId: string): Promise<BatchItem[]> {
+        const job = getBatchJobs(getCache())[jobId];
+        return job ? job.items.map((item: BatchItem) => ({ ...item })) : [];
+    },
+
+    async updateBatchItem(jobId: string, index: number, data: Partial<BatchItem>): Promise<void> {
+        const job = getBatchJobs(getCache())[jobId];
+        if (!job?.items[index]) return;
+        job.items[index] = { ...job.items[index], ...data };
+        scheduleFlush(); // High-frequency — debounce
+    },
+
+    async deleteBatchJob(id: string): Promise<void> {
+        delete getBatchJobs(getCache())[id];
+        flushNow();
+    },
 };
 
 export default localDb;
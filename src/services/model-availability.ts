@@ -0,0 +1,184 @@
+/**
+ * Per-account model availability.
+ *
+ * Some accounts answer 404 or a permission error for certain (often preview)
+ * models that other accounts serve fine. Each failure like that is remembered per
+ * account and model, so the rotation skips the account for that model instead of
+ * burning an attempt on it every time; a later success, or a periodic recheck,
+ * clears it. Admin rules can also reserve models for some accounts, e.g. Pro
+ * models for Pro-tier accounts only.
+ */
+
+import { getConfig, isConfigured, ModelAccessRule, ModelAvailabilityConfig } from './config';
+import { classifyError } from './error-classifier';
+import { getModelCatalog, getModelAliases } from './gemini';
+import type { Account } from './database';
+
+export const DEFAULT_MODEL_AVAILABILITY_CONFIG: ModelAvailabilityConfig = {
+    recheckMinutes: 60,
+    rules: [],
+};
+
+export type UnavailableReason = 'model_not_found' | 'auth';
+
+interface AvailabilityEntry {
+    available: boolean;
+    reason?: UnavailableReason;
+    checkedAt: number;
+}
+
+// email → model → what the last answer said
+const availability = new Map<string, Map<string, AvailabilityEntry>>();
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getModelAvailabilityConfig(): ModelAvailabilityConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_MODEL_AVAILABILITY_CONFIG, ...getConfig().modelAvailability };
+    } catch { /* fallback to default */ }
+    return DEFAULT_MODEL_AVAILABILITY_CONFIG;
+}
+
+function parseRule(input: any, index: number): ModelAccessRule | { error: string } {
+    const where = `rules[${index}]`;
+    if (!input || typeof input !== 'object') return { error: `${where} must be an object.` };
+    const { model, requirePro, accounts } = input;
+    if (typeof model !== 'string' || !model.trim()) return { error: `${where}.model must be a model name or pattern.` };
+    if (requirePro !== undefined && typeof requirePro !== 'boolean') return { error: `${where}.requirePro must be a boolean.` };
+    if (accounts !== undefined && (!Array.isArray(accounts) || !accounts.every(a => typeof a === 'string' && a.trim()))) {
+        return { error: `${where}.accounts must be an array of account emails.` };
+    }
+    if (!requirePro && !accounts?.length) return { error: `${where} must set requirePro or accounts.` };
+    return {
+        model: model.trim(),
+        ...(requirePro && { requirePro }),
+        ...(accounts?.length && { accounts: accounts.map((a: string) => a.trim().toLowerCase()) }),
+    };
+}
+
+/** Validates availability settings sent by the admin API; omitted fields keep their current values. */
+export function parseModelAvailabilityConfig(input: any): ModelAvailabilityConfig | { error: string } {
+    const { recheckMinutes, rules } = { ...getModelAvailabilityConfig(), ...input };
+    if (!Number.isInteger(recheckMinutes) || recheckMinutes < 0) {
+        return { error: 'recheckMinutes must be a non-negative integer (0 turns rechecks off).' };
+    }
+    if (!Array.isArray(rules)) return { error: 'rules must be an array.' };
+
+    const parsed: ModelAccessRule[] = [];
+    for (let i = 0; i < rules.length; i++) {
+        const rule = parseRule(rules[i], i);
+        if ('error' in rule) return rule;
+        parsed.push(rule);
+    }
+    return { recheckMinutes, rules: parsed };
+}
+
+// ─── Rules ───────────────────────────────────────────────────────────────────
+
+/** `*` matches any run of characters; everything else literally. */
+function modelMatches(pattern: string, model: string): boolean {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i').test(model);
+}
+
+/** The first rule that keeps `account` from serving `model`, if any. */
+function blockingRule(account: Account, model: string): ModelAccessRule | undefined {
+    return getModelAvailabilityConfig().rules.find(rule =>
+        modelMatches(rule.model, model) && (
+            (rule.requirePro && !account.isPro) ||
+            (rule.accounts?.length && !rule.accounts.includes(account.email.toLowerCase()))
+        )
+    );
+}
+
+// ─── Learning ────────────────────────────────────────────────────────────────
+
+function entriesOf(email: string): Map<string, AvailabilityEntry> {
+    let entries = availability.get(email);
+    if (!entries) {
+        entries = new Map();
+        availability.set(email, entries);
+    }
+    return entries;
+}
+
+export function recordModelAvailable(email: string, model: string): void {
+    const entries = entriesOf(email);
+    if (entries.get(model)?.available === false) console.log(`✅ ${email} serves ${model} again.`);
+    entries.set(model, { available: true, checkedAt: Date.now() });
+}
+
+/**
+ * Learns from a failed upstream answer. A 404 / model-not-found, or a 403 that is
+ * a permission error, means this account cannot use this model; other failures
+ * say nothing about the model and are ignored. Returns whether the model was
+ * marked unavailable.
+ */
+export function recordModelFailure(email: string, model: string, status: number, body: string): boolean {
+    const category = classifyError(`${status} ${body}`);
+    const reason: UnavailableReason | undefined = status === 404 || category === 'model_not_found'
+        ? 'model_not_found'
+        : status === 403 && category === 'auth' ? 'auth' : undefined;
+    if (!reason) return false;
+
+    const entries = entriesOf(email);
+    if (entries.get(model)?.available !== false) console.warn(`🚫 ${email} cannot serve ${model} (${reason}) — skipping it for that model.`);
+    entries.set(model, { available: false, reason, checkedAt: Date.now() });
+    return true;
+}
+
+/** Whether `account` may be sent requests for `model`: not known to fail on it, and allowed by the rules. */
+export function canServeModel(account: Account, model: string): boolean {
+    return availability.get(account.email)?.get(model)?.available !== false && !blockingRule(account, model);
+}
+
+/** Account/model pairs marked unavailable whose last check is older than the recheck interval. */
+export function getDueRechecks(now = Date.now()): Array<{ email: string; model: string }> {
+    const { recheckMinutes } = getModelAvailabilityConfig();
+    if (recheckMinutes <= 0) return [];
+    const due: Array<{ email: string; model: string }> = [];
+    for (const [email, entries] of availability) {
+        for (const [model, entry] of entries) {
+            if (!entry.available && now - entry.checkedAt >= recheckMinutes * 60_000) due.push({ email, model });
+        }
+    }
+    return due;
+}
+
+/** Marks a recheck as done without a verdict (the check itself failed), so it waits a full interval again. */
+export function touchRecheck(email: string, model: string): void {
+    const entry = availability.get(email)?.get(model);
+    if (entry) entry.checkedAt = Date.now();
+}
+
+// ─── Diagnostics ─────────────────────────────────────────────────────────────
+
+/**
+ * Availability of every catalogue model (and any other model seen) on every
+ * account: `available` / `unavailable` as last observed, `blocked` by a rule, or
+ * `unknown` if the account has not been asked for it yet.
+ */
+export function getAvailabilityMatrix(accounts: Account[]) {
+    const aliases = getModelAliases();
+    const models = new Set(getModelCatalog().filter(model => !(model in aliases)));
+    for (const entries of availability.values()) for (const model of entries.keys()) models.add(model);
+
+    return {
+        models: [...models],
+        accounts: accounts.map(account => ({
+            email: account.email,
+            isPro: !!account.isPro,
+            models: Object.fromEntries([...models].map(model => {
+                const rule = blockingRule(account, model);
+                if (rule) return [model, { state: 'blocked', rule: rule.model }];
+                const entry = availability.get(account.email)?.get(model);
+                if (!entry) return [model, { state: 'unknown' }];
+                return [model, {
+                    state: entry.available ? 'available' : 'unavailable',
+                    ...(entry.reason && { reason: entry.reason }),
+                    checkedAt: new Date(entry.checkedAt),
+                }];
+            })),
+        })),
+    };
+}
@@ -0,0 +1,122 @@
+/**
+ * Model aliases and rule-based routing.
+ *
+ * Clients can ask for stable names (`fast`, `smart`, `long-context`) that the
+ * admin points at real model ids, so a preview rename is a config change rather
+ * than a redeploy of every client. Routing rules go one step further and pick the
+ * model from the request itself: its estimated prompt size, whether it declares
+ * tools, or the API key it was made with.
+ */
+
+import { getModelAliases, getRoutingRules } from './gemini';
+import type { RoutingRule } from './config';
+
+// Aliases may point at other aliases; this bounds the lookup if they form a cycle
+const MAX_ALIAS_DEPTH = 5;
+// Gemini bills each image / media part at a flat rate regardless of its encoded size
+const MEDIA_PART_TOKENS = 258;
+const CHARS_PER_TOKEN = 4;
+
+/** Request traits routing rules can match on. */
+export interface RoutingTraits {
+    contents?: any[];
+    systemInstruction?: any;
+    tools?: any[];
+    apiKeyId?: string;
+}
+
+export function resolveAlias(name: string): string {
+    const aliases = getModelAliases();
+    let current = name;
+    for (let depth = 0; depth < MAX_ALIAS_DEPTH && aliases[current] && aliases[current] !== current; depth++) {
+        current = aliases[current];
+    }
+    return current;
+}
+
+/** Rough prompt size in tokens — text at ~4 characters per token, media at Gemini's flat rate. */
+export function estimatePromptTokens(contents: any[] = [], systemInstruction?: any, tools?: any[]): number {
+    let chars = 0;
+    let media = 0;
+    const countParts = (parts: any[] | undefined) => {
+        for (const p of parts ?? []) {
+            if (typeof p.text === 'string') chars += p.text.length;
+            else if (p.inlineData || p.fileData) media++;
+            else chars += JSON.stringify(p).length;
+        }
+    };
+
+    for (const content of contents) countParts(content?.parts);
+    if (typeof systemInstruction === 'string') chars += systemInstruction.length;
+    else countParts(systemInstruction?.parts);
+    if (tools?.length) chars += JSON.stringify(tools).length;
+
+    return Math.ceil(chars / CHARS_PER_TOKEN) + media * MEDIA_PART_TOKENS;
+}
+
+function ruleMatches(rule: RoutingRule, requested: string, traits: RoutingTraits, promptTokens: () => number): boolean {
+    if (rule.model && rule.model !== requested && resolveAlias(rule.model) !== resolveAlias(requested)) return false;
+    if (rule.hasTools !== undefined && rule.hasTools !== Boolean(traits.tools?.length)) return false;
+    if (rule.apiKeyIds?.length && (!traits.apiKeyId || !rule.apiKeyIds.includes(traits.apiKeyId))) return false;
+    if (rule.minPromptTokens !== undefined && promptTokens() < rule.minPromptTokens) return false;
+    if (rule.maxPromptTokens !== undefined && promptTokens() > rule.maxPromptTokens) return false;
+    return true;
+}
+
+/**
+ * The model to call for a request: the target of the first matching routing rule
+ * (rules are only consulted when the request's traits are given), otherwise the
+ * requested name. Either way aliases are resolved.
+ */
+export function routeModel(requested: string, traits?: RoutingTraits): string {
+    const rules = traits ? getRoutingRules() : [];
+    let tokens: number | undefined;
+    const promptTokens = () => tokens ??= estimatePromptTokens(traits?.contents, traits?.systemInstruction, traits?.tools);
+
+    for (const rule of rules) {
+        if (!ruleMatches(rule, requested, traits!, promptTokens)) continue;
+        const target = resolveAlias(rule.target);
+        console.log(`🧭 Routing rule ${rule.id}: ${requested} → ${target}`);
+        return target;
+    }
+    return resolveAlias(requested);
+}
+
+// ─── Admin input ─────────────────────────────────────────────────────────────
+
+const ALIAS_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+export function isValidAliasName(name: string): boolean {
+    return ALIAS_NAME.test(name);
+}
+
+function isTokenBound(value: any): boolean {
+    return value === undefined || (Number.isInteger(value) && value >= 0);
+}
+
+/** Validates a routing rule sent by the admin API; the id is assigned by the caller. */
+export function parseRoutingRule(input: any): Omit<RoutingRule, 'id'> | { error: string } {
+    const { model, minPromptTokens, maxPromptTokens, hasTools, apiKeyIds, target } = input ?? {};
+
+    if (typeof target !== 'string' || !target.trim()) return { error: 'target must be a model name or alias.' };
+    if (model !== undefined && (typeof model !== 'string' || !model.trim())) return { error: 'model must be a model name or alias.' };
+    if (!isTokenBound(minPromptTokens) || !isTokenBound(maxPromptTokens)) {
+        return { error: 'minPromptTokens and maxPromptTokens must be non-negative integers.' };
+    }
+    if (minPromptTokens !== undefined && maxPromptTokens !== undefined && minPromptTokens > maxPromptTokens) {
+        return { error: 'minPromptTokens must not exceed maxPromptTokens.' };
+    }
+    if (hasTools !== undefined && typeof hasTools !== 'boolean') return { error: 'hasTools must be a boolean.' };
+    if (apiKeyIds !== undefined && (!Array.isArray(apiKeyIds) || apiKeyIds.some((id: any) => typeof id !== 'string'))) {
+        return { error: 'apiKeyIds must be an array of API key ids.' };
+    }
+
+    return {
+        ...(model !== undefined && { model: model.trim() }),
+        ...(minPromptTokens !== undefined && { minPromptTokens }),
+        ...(maxPromptTokens !== undefined && { maxPromptTokens }),
+        ...(hasTools !== undefined && { hasTools }),
+        ...(apiKeyIds?.length && { apiKeyIds }),
+        target: target.trim(),
+    };
+}
@@ -0,0 +1,149 @@
+/**
+ * Exact-match response cache for generateContent.
+ *
+ * Identical requests (same model, contents, system instruction, tools and
+ * generation config) are answered from a stored response instead of spending
+ * account quota. Entries live in process memory or, with `storage: 'database'`,
+ * in the active DB backend so they survive restarts. Both stores honour the
+ * configured TTL and entry cap.
+ */
+
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { getConfig, isConfigured, CacheConfig } from './config';
+import type { ApiKey, CachedResponse } from './database';
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+    enabled: false,
+    storage: 'memory',
+    ttlSeconds: 60 * 60,
+    maxEntries: 1000,
+};
+
+// Finish reasons worth replaying; SAFETY, RECITATION etc. may well pass on a retry
+const CACHEABLE_FINISH_REASONS = new Set(['STOP', 'MAX_TOKENS']);
+// DB pruning scans the whole store, so the cap is enforced every few writes rather than on each one
+const DB_PRUNE_EVERY_WRITES = 25;
+
+// Insertion-ordered: re-inserting on a hit keeps the least recently used entry first
+const memoryCache = new Map<string, CachedResponse>();
+let dbWritesSincePrune = 0;
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getCacheConfig(): CacheConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_CACHE_CONFIG, ...getConfig().cache };
+    } catch { /* fallback to default */ }
+    return DEFAULT_CACHE_CONFIG;
+}
+
+/** A key's own setting wins; keys without one follow the global switch. */
+export function isCacheEnabledFor(apiKey?: ApiKey): boolean {
+    return apiKey?.cacheEnabled ?? getCacheConfig().enabled;
+}
+
+// ─── Keying ──────────────────────────────────────────────────────────────────
+
+/** Sorts object keys and drops undefined values so equivalent JSON hashes identically. */
+function normalise(value: any): any {
+    if (Array.isArray(value)) return value.map(normalise);
+    if (value && typeof value === 'object') {
+        const out: Record<string, any> = {};
+        for (const key of Object.keys(value).sort()) {
+            if (value[key] !== undefined) out[key] = normalise(value[key]);
+        }
+        return out;
+    }
+    return value;
+}
+
+function isEmpty(value: any): boolean {
+    return value === undefined || value === null || (typeof value === 'object' && Object.keys(value).length === 0);
+}
+
+/** Canonical hash of a generation request — the cache key, also used to coalesce identical in-flight requests. */
+export function requestFingerprint(
+    model: string, contents: any[],
+    generationConfig?: any, systemInstruction?: any, tools?: any[], toolConfig?: any
+): string {
+    // A bare string and `{ parts: [{ text }] }` are the same instruction
+    const si = typeof systemInstruction === 'string' ? { parts: [{ text: systemInstruction }] } : systemInstruction;
+    const request: Record<string, any> = { model, contents };
+    if (!isEmpty(generationConfig)) request.generationConfig = generationConfig;
+    if (!isEmpty(si)) request.systemInstruction = si;
+    if (!isEmpty(tools)) request.tools = tools;
+    if (!isEmpty(toolConfig)) request.toolConfig = toolConfig;
+    return crypto.createHash('sha256').update(JSON.stringify(normalise(request))).digest('hex');
+}
+
+// ─── Lookup / store ──────────────────────────────────────────────────────────
+
+function isExpired(entry: CachedResponse): boolean {
+    return new Date(entry.expiresAt).getTime() <= Date.now();
+}
+
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+    const config = getCacheConfig();
+
+    if (config.storage === 'database') {
+        const entry = await getDatabase().getCachedResponse(key);
+        return entry && !isExpired(entry) ? entry : null;
+    }
+
+    const entry = memoryCache.get(key);
+    if (!entry) return null;
+    memoryCache.delete(key);
+    if (isExpired(entry)) return null;
+    memoryCache.set(key, entry);
+    // Callers may adapt the response in place; never hand out the stored object
+    return { ...entry, response: JSON.parse(JSON.stringify(entry.response)) };
+}
+
+/** Stores a successful response; responses that ended abnormally are not cached. */
+export async function storeCachedResponse(
+    key: string, response: any, model: string, accountEmail: string, tokensUsed: number
+): Promise<void> {
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (finishReason && !CACHEABLE_FINISH_REASONS.has(finishReason)) return;
+
+    const config = getCacheConfig();
+    const now = Date.now();
+    const entry: CachedResponse = {
+        key, model, accountEmail, tokensUsed,
+        response: JSON.parse(JSON.stringify(response)), // Detach from the copy the caller is about to adapt
+        createdAt: new Date(now),
+        expiresAt: new Date(now + config.ttlSeconds * 1000),
+    };
+
+    if (config.storage === 'database') {
+        const db = getDatabase();
+        await db.setCachedResponse(entry);
+        if (++dbWritesSincePrune >= DB_PRUNE_EVERY_WRITES) {
+            dbWritesSincePrune = 0;
+            await db.pruneCachedResponses(config.maxEntries);
+        }
+        return;
+    }
+
+    memoryCache.delete(key);
+    memoryCache.set(key, entry);
+    while (memoryCache.size > config.maxEntries) {
+        const oldest = memoryCache.keys().next().value;
+        if (oldest === undefined) break;
+        memoryCache.delete(oldest);
+    }
+}
+
+/** Empties both stores (the DB one only if it is in use); returns how many entries were removed. */
+export async function clearResponseCache(): Promise<number> {
+    let count = memoryCache.size;
+    memoryCache.clear();
+    if (getCacheConfig().storage === 'database') count += await getDatabase().clearCachedResponses();
+    return count;
+}
+
+/** Number of entries currently held in memory (the DB store is not counted). */
+export function getMemoryCacheSize(): number {
+    return memoryCache.size;
+}
@@ -0,0 +1,137 @@
+/**
+ * Per-request routing overrides.
+ *
+ * A client can tune how its request is routed with `X-OpenGem-*` headers:
+ * disable the model fallback chain, change the number of rotation rounds, set
+ * a deadline, prefer Pro accounts or pin a single account for debugging. Each
+ * header is an override the request's API key must be allowed to use, and the
+ * numeric ones are capped by admin-defined limits.
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import { getConfig, isConfigured, RoutingLimits } from './config';
+import type { RoutingOverride } from './database';
+
+export const DEFAULT_ROUTING_LIMITS: RoutingLimits = {
+    maxAttempts: 10,
+    maxTimeoutMs: 600_000,
+};
+
+// Shorter deadlines cannot get a single upstream call through
+const MIN_TIMEOUT_MS = 1_000;
+
+export const ROUTING_OVERRIDE_HEADERS: Record<RoutingOverride, string> = {
+    fallback: 'x-opengem-fallback',
+    maxAttempts: 'x-opengem-max-attempts',
+    timeout: 'x-opengem-timeout-ms',
+    preferPro: 'x-opengem-prefer-pro',
+    account: 'x-opengem-account',
+};
+
+/** Routing behaviour a request asked for; absent fields keep the server defaults. */
+export interface RoutingOptions {
+    /** false skips the model fallback chain after a 429. */
+    fallback?: boolean;
+    /** Rotation rounds over the account list before giving up. */
+    maxAttempts?: number;
+    /** Deadline for the whole request, retries and backoff included. */
+    timeoutMs?: number;
+    /** Try Pro accounts before the others. */
+    preferPro?: boolean;
+    /** Email of the only account the request may use. */
+    account?: string;
+}
+
+export interface ParsedRoutingHeaders {
+    options: RoutingOptions;
+    /** Overrides the request used — each must be allowed for its API key. */
+    used: RoutingOverride[];
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getRoutingLimits(): RoutingLimits {
+    try {
+        if (isConfigured()) return { ...DEFAULT_ROUTING_LIMITS, ...getConfig().routingLimits };
+    } catch { /* fallback to default */ }
+    return DEFAULT_ROUTING_LIMITS;
+}
+
+export function isRoutingOverride(value: any): value is RoutingOverride {
+    return typeof value === 'string' && value in ROUTING_OVERRIDE_HEADERS;
+}
+
+/** Validates routing limits sent by the admin API. */
+export function parseRoutingLimits(input: any): RoutingLimits | { error: string } {
+    const { maxAttempts, maxTimeoutMs } = { ...getRoutingLimits(), ...input };
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 50) {
+        return { error: 'maxAttempts must be an integer between 1 and 50.' };
+    }
+    if (!Number.isInteger(maxTimeoutMs) || maxTimeoutMs < MIN_TIMEOUT_MS) {
+        return { error: `maxTimeoutMs must be an integer of at least ${MIN_TIMEOUT_MS}.` };
+    }
+    return { maxAttempts, maxTimeoutMs };
+}
+
+// ─── Request headers ─────────────────────────────────────────────────────────
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    const text = (Array.isArray(value) ? value[0] : value)?.trim();
+    return text || undefined;
+}
+
+function parseSwitch(value: string): boolean | undefined {
+    if (/^(on|true|1)$/i.test(value)) return true;
+    if (/^(off|false|0)$/i.test(value)) return false;
+    return undefined;
+}
+
+/**
+ * Reads the routing headers of a request. Numeric values above the admin limits
+ * are clamped to them; malformed values are an error rather than being ignored,
+ * so a typo does not silently fall back to the defaults.
+ */
+export function parseRoutingHeaders(headers: IncomingHttpHeaders): ParsedRoutingHeaders | { error: string } {
+    const limits = getRoutingLimits();
+    const options: RoutingOptions = {};
+    const used: RoutingOverride[] = [];
+
+    const fallback = headerValue(headers, ROUTING_OVERRIDE_HEADERS.fallback);
+    if (fallback !== undefined) {
+        options.fallback = parseSwitch(fallback);
+        if (options.fallback === undefined) return { error: 'X-OpenGem-Fallback must be on or off.' };
+        used.push('fallback');
+    }
+
+    const maxAttempts = headerValue(headers, ROUTING_OVERRIDE_HEADERS.maxAttempts);
+    if (maxAttempts !== undefined) {
+        const n = Number(maxAttempts);
+        if (!Number.isInteger(n) || n < 1) return { error: 'X-OpenGem-Max-Attempts must be a positive integer.' };
+        options.maxAttempts = Math.min(n, limits.maxAttempts);
+        used.push('maxAttempts');
+    }
+
+    const timeout = headerValue(headers, ROUTING_OVERRIDE_HEADERS.timeout);
+    if (timeout !== undefined) {
+        const ms = Number(timeout);
+        if (!Number.isInteger(ms) || ms < MIN_TIMEOUT_MS) return { error: `X-OpenGem-Timeout-Ms must be an integer of at least ${MIN_TIMEOUT_MS}.` };
+        options.timeoutMs = Math.min(ms, limits.maxTimeoutMs);
+        used.push('timeout');
+    }
+
+    const preferPro = headerValue(headers, ROUTING_OVERRIDE_HEADERS.preferPro);
+    if (preferPro !== undefined) {
+        options.preferPro = parseSwitch(preferPro);
+        if (options.preferPro === undefined) return { error: 'X-OpenGem-Prefer-Pro must be on or off.' };
+        used.push('preferPro');
+    }
+
+    const account = headerValue(headers, ROUTING_OVERRIDE_HEADERS.account);
+    if (account !== undefined) {
+        options.account = account.toLowerCase();
+        used.push('account');
+    }
+
+    return { options, used };
+}
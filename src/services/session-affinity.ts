@@ -0,0 +1,153 @@
+/**
+ * Conversation affinity.
+ *
+ * Multi-turn agents get better implicit prompt caching, and fewer behaviour
+ * differences between turns, when every turn is served by the same Google
+ * account. A session — named by the client with `X-OpenGem-Session`, or derived
+ * from a hash of the conversation's first turn — is pinned to the account that
+ * last answered it for a sliding TTL. The rotation only moves a session to
+ * another account while its pinned account is cooling down.
+ */
+
+import crypto from 'crypto';
+import { getConfig, isConfigured, AffinityConfig } from './config';
+
+export const DEFAULT_AFFINITY_CONFIG: AffinityConfig = {
+    enabled: false,
+    ttlSeconds: 1_800,
+    deriveFromPrefix: true,
+};
+
+// Bounds memory when clients send a fresh session id with every request
+const MAX_SESSIONS = 10_000;
+
+/** Affinity state of one client request. */
+export interface SessionAffinity {
+    /** Sessions are scoped to the API key, so two clients can't collide on a session id. */
+    scope: string;
+    /** Session id from `X-OpenGem-Session`, if the client sent one. */
+    session?: string;
+    /** Key the session is pinned under; filled in once the conversation is known. */
+    key?: string;
+}
+
+interface AffinityEntry {
+    email: string;
+    source: 'session' | 'prefix';
+    session?: string;
+    scope: string;
+    createdAt: number;
+    expiresAt: number;
+    hits: number;
+}
+
+// Insertion order doubles as recency: touched entries are re-inserted at the end
+const sessions = new Map<string, AffinityEntry>();
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getAffinityConfig(): AffinityConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_AFFINITY_CONFIG, ...getConfig().affinity };
+    } catch { /* fallback to default */ }
+    return DEFAULT_AFFINITY_CONFIG;
+}
+
+/** Validates affinity settings sent by the admin API; omitted fields keep their current values. */
+export function parseAffinityConfig(input: any): AffinityConfig | { error: string } {
+    const { enabled, ttlSeconds, deriveFromPrefix } = { ...getAffinityConfig(), ...input };
+    if (typeof enabled !== 'boolean') return { error: 'enabled must be a boolean.' };
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1) return { error: 'ttlSeconds must be a positive integer.' };
+    if (typeof deriveFromPrefix !== 'boolean') return { error: 'deriveFromPrefix must be a boolean.' };
+    return { enabled, ttlSeconds, deriveFromPrefix };
+}
+
+// ─── Keys ────────────────────────────────────────────────────────────────────
+
+function hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * The key a request's session is pinned under: its session id when it sent one,
+ * otherwise (if enabled) a hash of the system instruction and first turn, which
+ * stay the same as the conversation grows.
+ */
+export function affinityKeyFor(affinity: SessionAffinity, contents: any[], systemInstruction?: any): string | undefined {
+    if (affinity.session) return hash(JSON.stringify(['session', affinity.scope, affinity.session]));
+    if (!getAffinityConfig().deriveFromPrefix || !contents?.length) return undefined;
+    return hash(JSON.stringify(['prefix', affinity.scope, systemInstruction ?? null, contents[0]]));
+}
+
+// ─── Pinning ─────────────────────────────────────────────────────────────────
+
+function touch(key: string, entry: AffinityEntry): void {
+    entry.expiresAt = Date.now() + getAffinityConfig().ttlSeconds * 1000;
+    sessions.delete(key);
+    sessions.set(key, entry);
+}
+
+/** The account a session is pinned to, if the pin has not expired. */
+export function getPinnedAccount(key: string): string | undefined {
+    const entry = sessions.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+        sessions.delete(key);
+        return undefined;
+    }
+    entry.hits++;
+    touch(key, entry);
+    return entry.email;
+}
+
+/** Pins a session to the account that just answered it. */
+export function pinSession(affinity: SessionAffinity, email: string): void {
+    if (!affinity.key) return;
+    const existing = sessions.get(affinity.key);
+    if (existing && existing.email !== email) console.log(`📌 Session moved from ${existing.email} to ${email}.`);
+
+    touch(affinity.key, existing
+        ? { ...existing, email }
+        : {
+            email,
+            source: affinity.session ? 'session' : 'prefix',
+            ...(affinity.session && { session: affinity.session }),
+            scope: affinity.scope,
+            createdAt: Date.now(),
+            expiresAt: 0,
+            hits: 0,
+        });
+
+    if (sessions.size > MAX_SESSIONS) {
+        const now = Date.now();
+        for (const [key, entry] of sessions) if (entry.expiresAt <= now) sessions.delete(key);
+        for (const key of sessions.keys()) {
+            if (sessions.size <= MAX_SESSIONS) break;
+            sessions.delete(key);
+        }
+    }
+}
+
+export function clearAffinity(): number {
+    const removed = sessions.size;
+    sessions.clear();
+    return removed;
+}
+
+/** Live pins for the admin diagnostics, most recently used first. */
+export function getAffinityDiagnostics() {
+    const now = Date.now();
+    return Array.from(sessions.entries())
+        .filter(([, entry]) => entry.expiresAt > now)
+        .reverse()
+        .map(([key, entry]) => ({
+            key: key.slice(0, 12),
+            email: entry.email,
+            source: entry.source,
+            ...(entry.session && { session: entry.session }),
+            apiKeyId: entry.scope || undefined,
+            hits: entry.hits,
+            createdAt: new Date(entry.createdAt),
+            expiresAt: new Date(entry.expiresAt),
+        }));
+}
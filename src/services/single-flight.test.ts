@@ -0,0 +1,110 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { SingleFlight } from './single-flight';
+
+/** A promise settled from outside, standing in for an upstream call. */
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (err: Error) => void;
+    const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+    return { promise, resolve, reject };
+}
+
+test('concurrent callers share one run and its result', async () => {
+    const flights = new SingleFlight<string>();
+    const work = deferred<string>();
+    let starts = 0;
+    const start = () => { starts++; return { result: work.promise, shared: undefined }; };
+
+    const leader = flights.join('k', undefined, start);
+    const follower = flights.join('k', undefined, start);
+    assert.equal(leader.leader, true);
+    assert.equal(follower.leader, false);
+
+    work.resolve('answer');
+    assert.deepEqual(await Promise.all([leader.result, follower.result]), ['answer', 'answer']);
+    assert.equal(starts, 1);
+});
+
+test('a failing leader fails every waiter, and the next caller starts afresh', async () => {
+    const flights = new SingleFlight<string>();
+    const work = deferred<string>();
+    const leader = flights.join('k', undefined, () => ({ result: work.promise, shared: undefined }));
+    const follower = flights.join('k', undefined, () => assert.fail('follower must not start work'));
+
+    work.reject(new Error('upstream down'));
+    await assert.rejects(leader.result, /upstream down/);
+    await assert.rejects(follower.result, /upstream down/);
+    assert.equal(flights.size, 0);
+
+    const retry = flights.join('k', undefined, () => ({ result: Promise.resolve('ok'), shared: undefined }));
+    assert.equal(retry.leader, true);
+    assert.equal(await retry.result, 'ok');
+});
+
+test('a follower that aborts leaves the shared work running for the others', async () => {
+    const flights = new SingleFlight<string>();
+    const work = deferred<string>();
+    let flightSignal!: AbortSignal;
+    const leader = flights.join('k', undefined, signal => {
+        flightSignal = signal;
+        return { result: work.promise, shared: undefined };
+    });
+    const client = new AbortController();
+    const follower = flights.join('k', client.signal, () => assert.fail('follower must not start work'));
+
+    client.abort();
+    await assert.rejects(follower.result, /aborted/);
+    assert.equal(flightSignal.aborted, false);
+
+    work.resolve('answer');
+    assert.equal(await leader.result, 'answer');
+});
+
+test('the work is aborted and retired once every caller has left', async () => {
+    const flights = new SingleFlight<string>();
+    let flightSignal!: AbortSignal;
+    let retired = 0;
+    const a = new AbortController();
+    const b = new AbortController();
+    const start = (signal: AbortSignal) => {
+        flightSignal = signal;
+        return { result: new Promise<string>(() => { /* never settles */ }), shared: undefined, onRetire: () => { retired++; } };
+    };
+    const first = flights.join('k', a.signal, start);
+    const second = flights.join('k', b.signal, start);
+
+    a.abort();
+    await assert.rejects(first.result, /aborted/);
+    assert.equal(flightSignal.aborted, false);
+
+    b.abort();
+    await assert.rejects(second.result, /aborted/);
+    assert.equal(flightSignal.aborted, true);
+    assert.equal(retired, 1);
+    assert.equal(flights.size, 0);
+});
+
+test('late joiners share the running flight, then start a new one once it settled', async () => {
+    const flights = new SingleFlight<string, { id: number }>();
+    const work = deferred<string>();
+    let retired = 0;
+    let nextId = 0;
+    const start = () => ({ result: work.promise, shared: { id: ++nextId }, onRetire: () => { retired++; } });
+
+    const leader = flights.join('k', undefined, start);
+    await Promise.resolve();
+    const late = flights.join('k', undefined, start);
+    assert.equal(late.shared, leader.shared);
+    assert.equal(retired, 0);
+
+    work.resolve('answer');
+    await late.result;
+    await new Promise(setImmediate);
+    assert.equal(retired, 1);
+
+    const after = flights.join('k', undefined, () => ({ result: Promise.resolve('new'), shared: { id: ++nextId } }));
+    assert.equal(after.leader, true);
+    assert.notEqual(after.shared, leader.shared);
+    assert.equal(await after.result, 'new');
+});
@@ -0,0 +1,92 @@
+/**
+ * Single-flight request coalescing.
+ *
+ * Concurrent callers presenting the same key share one run of the underlying
+ * work — the in-flight-map pattern `ensureFreshToken` uses for token refreshes.
+ * Unlike a token refresh the work is cancellable, so each flight owns an
+ * AbortSignal that fires only once every caller has gone away: one client
+ * disconnecting never cancels an answer another client is still waiting for.
+ */
+
+interface Flight<T, S> {
+    result: Promise<T>;
+    shared: S;
+    /** Runs once the flight can no longer be joined. */
+    onRetire?: () => void;
+    controller: AbortController;
+    waiters: number;
+}
+
+export interface FlightTicket<T, S> {
+    /** Settles with the shared result, or rejects as soon as this caller's own signal aborts. */
+    result: Promise<T>;
+    /** State created alongside the work (e.g. a broadcast later callers subscribe to). */
+    shared: S;
+    /** True for the caller whose `start` began the work. */
+    leader: boolean;
+}
+
+export class SingleFlight<T, S = undefined> {
+    private readonly inFlight = new Map<string, Flight<T, S>>();
+
+    /**
+     * Joins the flight for `key`, starting it with `start` if none is running.
+     * `start` receives the flight's own signal, not the caller's; its `onRetire`
+     * runs once the flight leaves the map and no later caller can join it.
+     */
+    join(
+        key: string,
+        signal: AbortSignal | undefined,
+        start: (signal: AbortSignal) => { result: Promise<T>; shared: S; onRetire?: () => void }
+    ): FlightTicket<T, S> {
+        let flight = this.inFlight.get(key);
+        const leader = !flight;
+
+        if (!flight) {
+            const controller = new AbortController();
+            const started = start(controller.signal);
+            const created: Flight<T, S> = { ...started, controller, waiters: 0 };
+            this.inFlight.set(key, created);
+            // Settled flights leave the map so later identical requests start afresh
+            created.result
+                .finally(() => this.retire(key, created))
+                .catch(() => { /* observed by the waiters */ });
+            flight = created;
+        }
+
+        const joined = flight;
+        joined.waiters++;
+
+        const result = new Promise<T>((resolve, reject) => {
+            const detach = () => signal?.removeEventListener('abort', onAbort);
+            const onAbort = () => {
+                detach();
+                if (--joined.waiters === 0) {
+                    // Nobody is left to answer — stop the work and let the next caller start over
+                    joined.controller.abort();
+                    this.retire(key, joined);
+                }
+                reject(new Error('Request aborted while waiting for a shared result'));
+            };
+
+            if (signal?.aborted) { onAbort(); return; }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            joined.result.then(
+                value => { detach(); resolve(value); },
+                err => { detach(); reject(err); }
+            );
+        });
+
+        return { result, shared: joined.shared, leader };
+    }
+
+    private retire(key: string, flight: Flight<T, S>): void {
+        if (this.inFlight.get(key) !== flight) return;
+        this.inFlight.delete(key);
+        flight.onRetire?.();
+    }
+
+    get size(): number {
+        return this.inFlight.size;
+    }
+}
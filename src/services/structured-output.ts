@@ -0,0 +1,199 @@
+/**
+ * Server-side structured output enforcement.
+ *
+ * Even in JSON mode Gemini occasionally returns output that is truncated or does
+ * not match the request's responseSchema. With enforcement on, the answer is
+ * validated against the schema; a failing answer is first put through a light
+ * repair (code fences, surrounding prose, trailing commas, unclosed brackets) and,
+ * if it still fails, the model is re-asked with the validation errors.
+ */
+
+import { getConfig, isConfigured, StructuredOutputConfig } from './config';
+
+export const DEFAULT_STRUCTURED_OUTPUT_CONFIG: StructuredOutputConfig = {
+    enabled: false,
+    maxRetries: 2,
+};
+
+// Keeps re-ask prompts and log lines readable when a large document fails many checks
+const MAX_REPORTED_ERRORS = 10;
+const RETRY_INSTRUCTION = 'Your previous response was not valid JSON for the required response schema. Reply again with only the corrected JSON. Problems found:';
+
+export interface StructuredCheck {
+    ok: boolean;
+    /** The answer as it should be returned — repaired when `repaired` is set. */
+    text: string;
+    repaired: boolean;
+    errors: string[];
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+export function getStructuredOutputConfig(): StructuredOutputConfig {
+    try {
+        if (isConfigured()) return { ...DEFAULT_STRUCTURED_OUTPUT_CONFIG, ...getConfig().structuredOutput };
+    } catch { /* fallback to default */ }
+    return DEFAULT_STRUCTURED_OUTPUT_CONFIG;
+}
+
+/** The schema a request asks its answer to follow, if any. */
+export function schemaOf(generationConfig: any): any | undefined {
+    return generationConfig?.responseSchema ?? generationConfig?.responseJsonSchema;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+    switch (type) {
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'null': return value === null;
+        default: return typeOf(value) === type;
+    }
+}
+
+/**
+ * Checks a parsed value against a schema — Gemini's OpenAPI subset as well as the
+ * matching JSON Schema keywords. Returns one message per violation, empty if valid.
+ */
+export function validateAgainstSchema(value: any, schema: any, path = '$'): string[] {
+    if (!schema || typeof schema !== 'object') return [];
+
+    if (Array.isArray(schema.anyOf) && schema.anyOf.length) {
+        const matched = schema.anyOf.some((option: any) => validateAgainstSchema(value, option, path).length === 0);
+        if (!matched) return [`${path}: does not match any of the allowed schemas`];
+    }
+
+    const types: string[] = (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [])
+        .map((t: string) => String(t).toLowerCase());
+    if (value === null) {
+        if (schema.nullable || !types.length || types.includes('null')) return [];
+        return [`${path}: must not be null`];
+    }
+    if (types.length && !types.some(t => matchesType(value, t))) {
+        return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+
+    const errors: string[] = [];
+    if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => JSON.stringify(e) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((e: any) => JSON.stringify(e)).join(', ')}`);
+    }
+    if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < Number(schema.minLength)) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > Number(schema.maxLength)) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        if (schema.pattern) {
+            try {
+                if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match pattern ${schema.pattern}`);
+            } catch { /* patterns JS can't compile are not enforced */ }
+        }
+    } else if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < Number(schema.minimum)) errors.push(`${path}: below the minimum of ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > Number(schema.maximum)) errors.push(`${path}: above the maximum of ${schema.maximum}`);
+    } else if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < Number(schema.minItems)) errors.push(`${path}: fewer than ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) errors.push(`${path}: more than ${schema.maxItems} items`);
+        if (schema.items && typeof schema.items === 'object') {
+            value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`)));
+        }
+    } else if (typeof value === 'object') {
+        const keys = Object.keys(value);
+        const properties = schema.properties ?? {};
+        for (const name of schema.required ?? []) {
+            if (!(name in value)) errors.push(`${path}.${name}: is required`);
+        }
+        for (const key of keys) {
+            if (properties[key]) errors.push(...validateAgainstSchema(value[key], properties[key], `${path}.${key}`));
+            else if (schema.additionalProperties === false) errors.push(`${path}.${key}: is not an allowed property`);
+        }
+        if (schema.minProperties !== undefined && keys.length < Number(schema.minProperties)) errors.push(`${path}: fewer than ${schema.minProperties} properties`);
+        if (schema.maxProperties !== undefined && keys.length > Number(schema.maxProperties)) errors.push(`${path}: more than ${schema.maxProperties} properties`);
+    }
+    return errors;
+}
+
+// ─── Repair ──────────────────────────────────────────────────────────────────
+
+/**
+ * Best-effort fix-ups for near-miss JSON: strips code fences and text around the
+ * document, drops trailing commas and closes whatever a truncated answer left open.
+ * Returns null if the result still does not parse.
+ */
+export function repairJson(text: string): string | null {
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const start = unfenced.search(/[{[]/);
+    if (start === -1) return null;
+
+    let out = '';
+    const open: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const ch of unfenced.slice(start)) {
+        if (inString) {
+            out += ch;
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') open.push(ch === '{' ? '}' : ']');
+        else if (ch === '}' || ch === ']') {
+            out = out.replace(/,\s*$/, '');
+            open.pop();
+        }
+        out += ch;
+        if (!open.length) break; // Anything after the document is prose
+    }
+
+    // Truncated: close the dangling string, drop a half-written member, close the brackets
+    if (inString) out += escaped ? '\\"' : '"';
+    if (open.length) {
+        out = out.replace(/[,\s]+$/, '');
+        if (out.endsWith(':')) out += ' null';
+        out += open.reverse().join('');
+    }
+
+    try {
+        JSON.parse(out);
+        return out;
+    } catch {
+        return null;
+    }
+}
+
+/** Validates an answer, falling back to a repaired version of it when the original fails. */
+export function checkStructuredOutput(text: string, schema: any): StructuredCheck {
+    let errors: string[];
+    try {
+        errors = validateAgainstSchema(JSON.parse(text), schema);
+    } catch (e: any) {
+        errors = [`$: not valid JSON (${e.message})`];
+    }
+    if (!errors.length) return { ok: true, text, repaired: false, errors };
+
+    const repaired = repairJson(text);
+    if (repaired !== null && repaired !== text && !validateAgainstSchema(JSON.parse(repaired), schema).length) {
+        return { ok: true, text: repaired, repaired: true, errors: [] };
+    }
+    return { ok: false, text, repaired: false, errors: errors.slice(0, MAX_REPORTED_ERRORS) };
+}
+
+/** Conversation for a re-ask: the rejected answer as a model turn, then the errors to fix. */
+export function buildRetryContents(contents: any[], answer: string, errors: string[]): any[] {
+    return [
+        ...contents,
+        { role: 'model', parts: [{ text: answer }] },
+        { role: 'user', parts: [{ text: `${RETRY_INSTRUCTION}\n${errors.map(e => `- ${e}`).join('\n')}` }] },
+    ];
+}